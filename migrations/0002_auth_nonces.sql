@@ -0,0 +1,10 @@
+-- Signed request nonces (replay protection)
+
+CREATE TABLE IF NOT EXISTS auth_nonces (
+  signer TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (signer, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_nonces_created ON auth_nonces(created_at);
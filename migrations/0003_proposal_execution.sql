@@ -0,0 +1,4 @@
+-- Proposal execution: typed action payloads and failure reasons
+
+ALTER TABLE proposals ADD COLUMN action_payload TEXT;
+ALTER TABLE proposals ADD COLUMN execution_error TEXT;
@@ -0,0 +1,9 @@
+-- Voting windows and quorum
+
+ALTER TABLE daos ADD COLUMN voting_period_hours INTEGER NOT NULL DEFAULT 72;
+ALTER TABLE daos ADD COLUMN quorum_pct INTEGER NOT NULL DEFAULT 50;
+ALTER TABLE proposals ADD COLUMN voting_ends_at TEXT;
+
+UPDATE proposals SET voting_ends_at = datetime(created_at, '+72 hours') WHERE voting_ends_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_proposals_open ON proposals(status, voting_ends_at);
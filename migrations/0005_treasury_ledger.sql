@@ -0,0 +1,40 @@
+-- Double-entry treasury ledger; daos.treasury_sats becomes a cache of the treasury account
+
+CREATE TABLE IF NOT EXISTS treasury_entries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  entry_type TEXT NOT NULL,
+  debit_account TEXT NOT NULL,
+  credit_account TEXT NOT NULL,
+  amount_sats INTEGER NOT NULL CHECK (amount_sats > 0),
+  counterparty TEXT,
+  proposal_id INTEGER REFERENCES proposals(id),
+  tx_id TEXT,
+  memo TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_treasury_entries_dao ON treasury_entries(dao_id, id);
+CREATE INDEX IF NOT EXISTS idx_treasury_entries_counterparty ON treasury_entries(dao_id, counterparty);
+
+-- Backfill deposits from the activity feed ("<amount> sats deposited (tx: <id>)")
+INSERT INTO treasury_entries (dao_id, entry_type, debit_account, credit_account, amount_sats, counterparty, tx_id, memo, created_at)
+SELECT dao_id, 'deposit', 'treasury', 'contributor:' || actor, CAST(details AS INTEGER), actor,
+       CASE WHEN instr(details, '(tx: ') > 0
+            THEN substr(details, instr(details, '(tx: ') + 5, length(details) - instr(details, '(tx: ') - 5)
+       END,
+       'Backfilled from activity', created_at
+FROM activity
+WHERE action = 'funded' AND CAST(details AS INTEGER) > 0
+ORDER BY id;
+
+-- Reconcile anything the activity feed can't explain (e.g. executed payouts) as an adjustment
+INSERT INTO treasury_entries (dao_id, entry_type, debit_account, credit_account, amount_sats, memo)
+SELECT d.id, 'adjustment',
+       CASE WHEN d.treasury_sats > COALESCE(l.balance, 0) THEN 'treasury' ELSE 'adjustments' END,
+       CASE WHEN d.treasury_sats > COALESCE(l.balance, 0) THEN 'adjustments' ELSE 'treasury' END,
+       abs(d.treasury_sats - COALESCE(l.balance, 0)),
+       'Opening balance reconciliation'
+FROM daos d
+LEFT JOIN (SELECT dao_id, SUM(amount_sats) as balance FROM treasury_entries GROUP BY dao_id) l ON l.dao_id = d.id
+WHERE d.treasury_sats != COALESCE(l.balance, 0);
@@ -0,0 +1,30 @@
+-- On-chain deposit verification
+
+ALTER TABLE daos ADD COLUMN treasury_address TEXT;
+
+CREATE TABLE IF NOT EXISTS deposits (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  funder TEXT NOT NULL,
+  amount_sats INTEGER NOT NULL,
+  tx_id TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reason TEXT,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  checked_at TEXT,
+  confirmed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposits_dao ON deposits(dao_id, status);
+CREATE INDEX IF NOT EXISTS idx_deposits_pending ON deposits(status, checked_at);
+
+-- Unverified deposits booked before this migration still claim their tx ids
+INSERT OR IGNORE INTO deposits (dao_id, funder, amount_sats, tx_id, status, reason, confirmed_at, created_at)
+SELECT dao_id, counterparty, amount_sats,
+       CASE WHEN lower(tx_id) LIKE '0x%' THEN lower(tx_id) ELSE '0x' || lower(tx_id) END,
+       'confirmed', 'Recorded before on-chain verification', created_at, created_at
+FROM treasury_entries
+WHERE entry_type = 'deposit' AND tx_id IS NOT NULL
+ORDER BY id;
@@ -0,0 +1,3 @@
+-- Governed settings changes and dissolution
+
+ALTER TABLE daos ADD COLUMN dissolved_at TEXT;
@@ -0,0 +1,38 @@
+-- Invitation tokens and join requests
+
+CREATE TABLE IF NOT EXISTS invites (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  token_hash TEXT NOT NULL UNIQUE,
+  btc_address TEXT,
+  display_name TEXT,
+  role TEXT NOT NULL DEFAULT 'member',
+  created_by TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  expires_at TEXT NOT NULL,
+  accepted_by TEXT,
+  accepted_at TEXT,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS join_requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  btc_address TEXT NOT NULL,
+  stx_address TEXT,
+  display_name TEXT,
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  decided_by TEXT,
+  proposal_id INTEGER REFERENCES proposals(id),
+  decided_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_invites_dao ON invites(dao_id, status);
+CREATE INDEX IF NOT EXISTS idx_join_requests_dao ON join_requests(dao_id, status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_join_requests_pending ON join_requests(dao_id, btc_address) WHERE status = 'pending';
+
+-- Direct invites accepted any role string; fold unknown ones into 'member'
+UPDATE members SET role = 'member' WHERE role NOT IN ('admin', 'member');
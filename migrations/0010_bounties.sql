@@ -0,0 +1,36 @@
+-- Bounties: tasks with an escrowed sats reward, applications from any agent
+
+CREATE TABLE IF NOT EXISTS bounties (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  proposal_id INTEGER NOT NULL UNIQUE REFERENCES proposals(id),
+  title TEXT NOT NULL,
+  description TEXT,
+  reward_sats INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  created_by TEXT NOT NULL,
+  assignee TEXT,
+  assigned_by TEXT,
+  deliverable TEXT,
+  submitted_at TEXT,
+  reviewed_by TEXT,
+  review_note TEXT,
+  closed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS bounty_applications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bounty_id INTEGER NOT NULL REFERENCES bounties(id),
+  dao_id INTEGER NOT NULL,
+  applicant TEXT NOT NULL,
+  pitch TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(bounty_id, applicant)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bounties_status ON bounties(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_bounties_dao ON bounties(dao_id, status);
+CREATE INDEX IF NOT EXISTS idx_bounty_applications_bounty ON bounty_applications(bounty_id);
@@ -0,0 +1,24 @@
+-- Payment streams: recurring payouts set up by one proposal
+
+CREATE TABLE IF NOT EXISTS streams (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  proposal_id INTEGER NOT NULL UNIQUE REFERENCES proposals(id),
+  recipient TEXT NOT NULL,
+  amount_sats INTEGER NOT NULL,
+  cadence TEXT NOT NULL,
+  cap_sats INTEGER NOT NULL,
+  start_at TEXT NOT NULL,
+  end_at TEXT,
+  next_payment_at TEXT NOT NULL,
+  paid_sats INTEGER NOT NULL DEFAULT 0,
+  installments_paid INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active',
+  pause_reason TEXT,
+  ended_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_streams_due ON streams(status, next_payment_at);
+CREATE INDEX IF NOT EXISTS idx_streams_dao ON streams(dao_id, status);
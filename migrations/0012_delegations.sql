@@ -0,0 +1,13 @@
+-- Vote delegation, per DAO (proposal_id NULL) or per proposal
+
+CREATE TABLE IF NOT EXISTS delegations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  delegator TEXT NOT NULL,
+  delegate TEXT NOT NULL,
+  proposal_id INTEGER REFERENCES proposals(id),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delegations_scope ON delegations(dao_id, delegator, COALESCE(proposal_id, 0));
+CREATE INDEX IF NOT EXISTS idx_delegations_delegate ON delegations(dao_id, delegate);
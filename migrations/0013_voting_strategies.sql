@@ -0,0 +1,5 @@
+-- Weighted voting: per-DAO strategy, weight snapshot per vote, eligible weight per proposal
+
+ALTER TABLE daos ADD COLUMN voting_strategy TEXT NOT NULL DEFAULT 'equal';
+ALTER TABLE votes ADD COLUMN weight INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE proposals ADD COLUMN total_weight INTEGER;
@@ -0,0 +1,5 @@
+-- Abstentions, vote reasons and changed votes
+
+ALTER TABLE votes ADD COLUMN reason TEXT;
+ALTER TABLE votes ADD COLUMN updated_at TEXT;
+ALTER TABLE proposals ADD COLUMN votes_abstain INTEGER NOT NULL DEFAULT 0;
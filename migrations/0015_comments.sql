@@ -0,0 +1,20 @@
+-- Threaded discussion on proposals
+
+CREATE TABLE IF NOT EXISTS comments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  proposal_id INTEGER NOT NULL REFERENCES proposals(id),
+  parent_id INTEGER REFERENCES comments(id),
+  thread_id INTEGER REFERENCES comments(id),
+  author TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  edited_at TEXT,
+  deleted_at TEXT,
+  deleted_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_proposal ON comments(proposal_id, parent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_thread ON comments(thread_id);
+
+ALTER TABLE proposals ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0;
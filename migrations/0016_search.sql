@@ -0,0 +1,56 @@
+-- Full-text search over DAOs and proposals, and DAO discovery by recent activity
+
+CREATE VIRTUAL TABLE IF NOT EXISTS dao_search USING fts5(
+  name, description, content = 'daos', content_rowid = 'id', tokenize = 'porter unicode61'
+);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS proposal_search USING fts5(
+  title, description, content = 'proposals', content_rowid = 'id', tokenize = 'porter unicode61'
+);
+
+INSERT INTO dao_search (dao_search) VALUES ('rebuild');
+INSERT INTO proposal_search (proposal_search) VALUES ('rebuild');
+
+-- External-content indexes are kept in step by triggers
+
+CREATE TRIGGER IF NOT EXISTS daos_search_insert AFTER INSERT ON daos BEGIN
+  INSERT INTO dao_search (rowid, name, description) VALUES (NEW.id, NEW.name, NEW.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS daos_search_update AFTER UPDATE OF name, description ON daos BEGIN
+  INSERT INTO dao_search (dao_search, rowid, name, description) VALUES ('delete', OLD.id, OLD.name, OLD.description);
+  INSERT INTO dao_search (rowid, name, description) VALUES (NEW.id, NEW.name, NEW.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS daos_search_delete AFTER DELETE ON daos BEGIN
+  INSERT INTO dao_search (dao_search, rowid, name, description) VALUES ('delete', OLD.id, OLD.name, OLD.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS proposals_search_insert AFTER INSERT ON proposals BEGIN
+  INSERT INTO proposal_search (rowid, title, description) VALUES (NEW.id, NEW.title, NEW.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS proposals_search_update AFTER UPDATE OF title, description ON proposals BEGIN
+  INSERT INTO proposal_search (proposal_search, rowid, title, description) VALUES ('delete', OLD.id, OLD.title, OLD.description);
+  INSERT INTO proposal_search (rowid, title, description) VALUES (NEW.id, NEW.title, NEW.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS proposals_search_delete AFTER DELETE ON proposals BEGIN
+  INSERT INTO proposal_search (proposal_search, rowid, title, description) VALUES ('delete', OLD.id, OLD.title, OLD.description);
+END;
+
+-- Last activity per DAO, for sort=activity
+
+ALTER TABLE daos ADD COLUMN last_activity_at TEXT;
+
+UPDATE daos SET last_activity_at = COALESCE((SELECT MAX(created_at) FROM activity WHERE activity.dao_id = daos.id), created_at);
+
+CREATE TRIGGER IF NOT EXISTS activity_touches_dao AFTER INSERT ON activity BEGIN
+  UPDATE daos SET last_activity_at = NEW.created_at WHERE id = NEW.dao_id;
+END;
+
+CREATE INDEX IF NOT EXISTS idx_daos_treasury ON daos(status, treasury_sats, id);
+CREATE INDEX IF NOT EXISTS idx_daos_members ON daos(status, member_count, id);
+CREATE INDEX IF NOT EXISTS idx_daos_proposals ON daos(status, proposal_count, id);
+CREATE INDEX IF NOT EXISTS idx_daos_activity ON daos(status, last_activity_at, id);
+CREATE INDEX IF NOT EXISTS idx_daos_creator ON daos(creator);
@@ -0,0 +1,7 @@
+-- Structured activity metadata and feed indexes
+
+ALTER TABLE activity ADD COLUMN metadata TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_activity_dao_id ON activity(dao_id, id);
+CREATE INDEX IF NOT EXISTS idx_activity_actor ON activity(actor, id);
+CREATE INDEX IF NOT EXISTS idx_activity_action ON activity(action, id);
@@ -0,0 +1,3 @@
+-- Deployed Clarity treasury contract, set by a settings proposal
+
+ALTER TABLE daos ADD COLUMN contract_principal TEXT;
@@ -0,0 +1,19 @@
+-- Reusable proposals per DAO, filled in with parameters when a proposal is created
+
+CREATE TABLE IF NOT EXISTS proposal_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  actions TEXT NOT NULL DEFAULT '[]',
+  params TEXT NOT NULL DEFAULT '[]',
+  voting_period_hours INTEGER,
+  created_by TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  archived_at TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_templates_name ON proposal_templates(dao_id, name) WHERE archived_at IS NULL;
+
+ALTER TABLE proposals ADD COLUMN template_id INTEGER REFERENCES proposal_templates(id);
@@ -0,0 +1,11 @@
+-- Hash chain over each DAO's activity; rows are sealed (seq, prev_hash, hash) after insert
+
+ALTER TABLE activity ADD COLUMN seq INTEGER;
+ALTER TABLE activity ADD COLUMN prev_hash TEXT;
+ALTER TABLE activity ADD COLUMN hash TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_activity_seq ON activity(dao_id, seq) WHERE seq IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_unsealed ON activity(dao_id, id) WHERE hash IS NULL;
+
+-- Where an imported DAO came from: source host, DAO id, chain head and signing key
+ALTER TABLE daos ADD COLUMN imported_from TEXT;
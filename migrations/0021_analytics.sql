@@ -0,0 +1,58 @@
+-- Governance analytics, rolled up by the cron from proposals, votes, activity and the ledger
+
+CREATE TABLE IF NOT EXISTS metrics_daily (
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  day TEXT NOT NULL,
+  proposals_created INTEGER NOT NULL DEFAULT 0,
+  passed INTEGER NOT NULL DEFAULT 0,
+  rejected INTEGER NOT NULL DEFAULT 0,
+  expired INTEGER NOT NULL DEFAULT 0,
+  votes_cast INTEGER NOT NULL DEFAULT 0,
+  inflow_sats INTEGER NOT NULL DEFAULT 0,
+  outflow_sats INTEGER NOT NULL DEFAULT 0,
+  actions INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (dao_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_metrics_daily_day ON metrics_daily(day);
+
+-- One row per decided proposal; participation is voters / members at decision time
+CREATE TABLE IF NOT EXISTS proposal_outcomes (
+  proposal_id INTEGER PRIMARY KEY REFERENCES proposals(id),
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  outcome TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  decided_at TEXT NOT NULL,
+  decision_hours REAL NOT NULL,
+  voters INTEGER NOT NULL,
+  eligible_voters INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_outcomes_decided ON proposal_outcomes(dao_id, decided_at);
+CREATE INDEX IF NOT EXISTS idx_proposal_outcomes_day ON proposal_outcomes(decided_at);
+
+CREATE TABLE IF NOT EXISTS member_activity_daily (
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  day TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  actions INTEGER NOT NULL DEFAULT 0,
+  votes INTEGER NOT NULL DEFAULT 0,
+  proposals INTEGER NOT NULL DEFAULT 0,
+  comments INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (dao_id, day, actor)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_activity_day ON member_activity_daily(day, actor);
+
+-- Single row: when the last rollup started; NULL rebuilds everything on the next run
+CREATE TABLE IF NOT EXISTS analytics_rollups (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  rolled_up_at TEXT
+);
+INSERT OR IGNORE INTO analytics_rollups (id, rolled_up_at) VALUES (1, NULL);
+
+-- Rollups only scan recent rows
+CREATE INDEX IF NOT EXISTS idx_activity_created ON activity(created_at);
+CREATE INDEX IF NOT EXISTS idx_votes_created ON votes(created_at);
+CREATE INDEX IF NOT EXISTS idx_proposals_created ON proposals(created_at);
+CREATE INDEX IF NOT EXISTS idx_treasury_entries_created ON treasury_entries(created_at);
@@ -0,0 +1,28 @@
+-- A tx id stays claimed only while its deposit is pending or confirmed, so a
+-- rejected submission (wrong amount, wrong DAO) can't burn someone else's transaction
+
+CREATE TABLE deposits_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  dao_id INTEGER NOT NULL REFERENCES daos(id),
+  funder TEXT NOT NULL,
+  amount_sats INTEGER NOT NULL,
+  tx_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  reason TEXT,
+  confirmations INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  checked_at TEXT,
+  confirmed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO deposits_new (id, dao_id, funder, amount_sats, tx_id, status, reason, confirmations, attempts, checked_at, confirmed_at, created_at)
+SELECT id, dao_id, funder, amount_sats, tx_id, status, reason, confirmations, attempts, checked_at, confirmed_at, created_at
+FROM deposits;
+
+DROP TABLE deposits;
+ALTER TABLE deposits_new RENAME TO deposits;
+
+CREATE INDEX IF NOT EXISTS idx_deposits_dao ON deposits(dao_id, status);
+CREATE INDEX IF NOT EXISTS idx_deposits_pending ON deposits(status, checked_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deposits_claimed_tx ON deposits(tx_id) WHERE status != 'rejected';
@@ -0,0 +1,9 @@
+-- Stream installments point at their stream, instead of being found by their memo
+
+ALTER TABLE treasury_entries ADD COLUMN stream_id INTEGER REFERENCES streams(id);
+
+UPDATE treasury_entries
+SET stream_id = CAST(substr(memo, 9, instr(substr(memo, 9), ' ') - 1) AS INTEGER)
+WHERE entry_type = 'payout' AND memo LIKE 'Stream #% installment %';
+
+CREATE INDEX IF NOT EXISTS idx_treasury_entries_stream ON treasury_entries(stream_id) WHERE stream_id IS NOT NULL;
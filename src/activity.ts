@@ -0,0 +1,35 @@
+// Activity feed — every state change in a DAO lands here
+//
+// details is the human-readable line; metadata holds the same facts as JSON
+// (ids, amounts, addresses) so tools don't have to parse details.
+
+export type ActivityMetadata = Record<string, unknown>;
+
+export function activity(
+  db: D1Database, daoId: string | number, actor: string, action: string, details: string, metadata: ActivityMetadata | null = null,
+): D1PreparedStatement {
+  return db
+    .prepare('INSERT INTO activity (dao_id, actor, action, details, metadata) VALUES (?, ?, ?, ?, ?)')
+    .bind(daoId, actor, action, details, metadata ? JSON.stringify(metadata) : null);
+}
+
+export interface ActivityFilter {
+  daoId: string | number | null;
+  actions: string[];
+  actor: string | null;
+  before: number | null;
+  limit: number;
+}
+
+// Newest first; `before` is the id of the last row of the previous page
+export async function activityPage(db: D1Database, f: ActivityFilter): Promise<any[]> {
+  const rows = await db
+    .prepare(
+      `SELECT a.*, daos.name AS dao_name FROM activity a JOIN daos ON daos.id = a.dao_id
+       WHERE (?1 IS NULL OR a.dao_id = ?1) AND (?2 IS NULL OR a.actor = ?2) AND (?3 IS NULL OR a.id < ?3)
+         ${f.actions.length ? `AND a.action IN (${f.actions.map((_, i) => `?${i + 5}`).join(', ')})` : ''}
+       ORDER BY a.id DESC LIMIT ?4`
+    )
+    .bind(f.daoId, f.actor, f.before, f.limit, ...f.actions).all();
+  return (rows.results as any[]).map(r => ({ ...r, metadata: r.metadata ? JSON.parse(r.metadata) : null }));
+}
@@ -0,0 +1,212 @@
+// Governance analytics — outcomes, participation, decision time, treasury flows, active members
+//
+// Queries never scan the raw tables. The cron rolls proposals, votes, activity
+// and ledger entries up into metrics_daily, proposal_outcomes and
+// member_activity_daily (migration 0021); requests bucket those by day, week
+// (starting Monday) or month. Each rollup rebuilds every day since the previous
+// one started, so it is safe to rerun; clearing the watermark (staleRollups)
+// rebuilds from the beginning, e.g. after an import brings in old rows.
+//
+// A proposal is decided by the passed, rejected or expired activity row that
+// closed it. Its participation is distinct voters over the members who had
+// joined by then.
+
+import { TREASURY } from './treasury';
+
+export const BUCKETS: Record<string, string> = {
+  day: 'day',
+  week: 'date(day, \'weekday 0\', \'-6 days\')',
+  month: 'strftime(\'%Y-%m-01\', day)',
+};
+export const DEFAULT_RANGE_DAYS = 90;
+export const MAX_BUCKETS = 400;
+export const MAX_TOP_MEMBERS = 50;
+const RECENT_OUTCOMES = 50;
+const DAY_MS = 86_400_000;
+
+export interface AnalyticsQuery {
+  daoId: string | null;
+  bucket: string;
+  from: string;
+  to: string;
+  top: number;
+}
+
+export function staleRollups(db: D1Database): D1PreparedStatement {
+  return db.prepare('UPDATE analytics_rollups SET rolled_up_at = NULL WHERE id = 1');
+}
+
+export async function rollupAnalytics(db: D1Database): Promise<void> {
+  const state = await db
+    .prepare('SELECT rolled_up_at, datetime(\'now\') AS now FROM analytics_rollups WHERE id = 1')
+    .first<{ rolled_up_at: string | null; now: string }>();
+  if (!state) return;
+  const since = state.rolled_up_at ? state.rolled_up_at.slice(0, 10) : '0000-00-00';
+  const upsert = (columns: string[], select: string) => db
+    .prepare(
+      `INSERT INTO metrics_daily (dao_id, day, ${columns.join(', ')}) ${select}
+       ON CONFLICT (dao_id, day) DO UPDATE SET ${columns.map(c => `${c} = excluded.${c}`).join(', ')}`
+    )
+    .bind(since);
+
+  await db.batch([
+    db.prepare(
+      `INSERT OR REPLACE INTO proposal_outcomes
+         (proposal_id, dao_id, outcome, created_at, decided_at, decision_hours, voters, eligible_voters)
+       SELECT p.id, p.dao_id, a.action, p.created_at, a.created_at,
+              ROUND((julianday(a.created_at) - julianday(p.created_at)) * 24, 2),
+              (SELECT COUNT(*) FROM votes v WHERE v.proposal_id = p.id),
+              (SELECT COUNT(*) FROM members m WHERE m.dao_id = p.dao_id AND m.joined_at <= a.created_at)
+       FROM activity a JOIN proposals p ON p.id = json_extract(a.metadata, '$.proposal_id') AND p.dao_id = a.dao_id
+       WHERE a.action IN ('passed', 'rejected', 'expired') AND a.created_at >= ?1`
+    ).bind(since),
+
+    db.prepare('DELETE FROM metrics_daily WHERE day >= ?1').bind(since),
+    upsert(['proposals_created'],
+      'SELECT dao_id, date(created_at), COUNT(*) FROM proposals WHERE created_at >= ?1 GROUP BY 1, 2'),
+    upsert(['passed', 'rejected', 'expired'],
+      `SELECT dao_id, date(decided_at), SUM(outcome = 'passed'), SUM(outcome = 'rejected'), SUM(outcome = 'expired')
+       FROM proposal_outcomes WHERE decided_at >= ?1 GROUP BY 1, 2`),
+    upsert(['votes_cast'],
+      'SELECT dao_id, date(created_at), COUNT(*) FROM votes WHERE created_at >= ?1 GROUP BY 1, 2'),
+    upsert(['inflow_sats', 'outflow_sats'],
+      `SELECT dao_id, date(created_at),
+              SUM(CASE WHEN debit_account = '${TREASURY}' THEN amount_sats ELSE 0 END),
+              SUM(CASE WHEN credit_account = '${TREASURY}' THEN amount_sats ELSE 0 END)
+       FROM treasury_entries WHERE created_at >= ?1 GROUP BY 1, 2`),
+    upsert(['actions'],
+      'SELECT dao_id, date(created_at), COUNT(*) FROM activity WHERE created_at >= ?1 GROUP BY 1, 2'),
+
+    db.prepare('DELETE FROM member_activity_daily WHERE day >= ?1').bind(since),
+    db.prepare(
+      `INSERT INTO member_activity_daily (dao_id, day, actor, actions, votes, proposals, comments)
+       SELECT dao_id, date(created_at), actor, COUNT(*), SUM(action = 'voted'), SUM(action = 'proposed'), SUM(action = 'commented')
+       FROM activity WHERE created_at >= ?1 AND actor != 'system' GROUP BY 1, 2, 3`
+    ).bind(since),
+
+    db.prepare('UPDATE analytics_rollups SET rolled_up_at = ? WHERE id = 1').bind(state.now),
+  ]);
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+// Bucket start dates covering from..to, matching the SQL in BUCKETS
+function bucketKeys(bucket: string, from: string, to: string): string[] {
+  const start = new Date(`${from}T00:00:00Z`);
+  if (bucket === 'week') start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  if (bucket === 'month') start.setUTCDate(1);
+  const end = Date.parse(`${to}T00:00:00Z`);
+
+  const keys: string[] = [];
+  for (const d = start; d.getTime() <= end && keys.length <= MAX_BUCKETS; ) {
+    keys.push(d.toISOString().slice(0, 10));
+    if (bucket === 'month') d.setUTCMonth(d.getUTCMonth() + 1);
+    else d.setUTCDate(d.getUTCDate() + (bucket === 'week' ? 7 : 1));
+  }
+  return keys;
+}
+
+export function parseAnalyticsQuery(params: URLSearchParams, daoId: string | null): AnalyticsQuery | string {
+  const bucket = params.get('bucket') || 'week';
+  if (!BUCKETS[bucket]) return `bucket must be one of: ${Object.keys(BUCKETS).join(', ')}`;
+  const to = params.get('to') || new Date().toISOString().slice(0, 10);
+  const from = params.get('from') || new Date(Date.parse(`${to}T00:00:00Z`) - DEFAULT_RANGE_DAYS * DAY_MS).toISOString().slice(0, 10);
+  if (!isDate(from) || !isDate(to)) return 'from and to must be dates (YYYY-MM-DD)';
+  if (from > to) return 'from must not be after to';
+  if (bucketKeys(bucket, from, to).length > MAX_BUCKETS) return `Range covers more than ${MAX_BUCKETS} ${bucket} buckets`;
+  const top = Math.min(Math.max(parseInt(params.get('top') || '10') || 10, 1), MAX_TOP_MEMBERS);
+  return { daoId, bucket, from, to, top };
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round(((sorted[mid - 1] + sorted[mid]) / 2) * 100) / 100;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole ? Math.round((part / whole) * 10000) / 10000 : null;
+}
+
+// Outcome rates, decision time and participation over a set of decided proposals
+function decisionStats(outcomes: any[]): Record<string, number | null> {
+  const count = (o: string) => outcomes.filter(r => r.outcome === o).length;
+  const rates = outcomes.filter(r => r.eligible_voters > 0).map(r => r.voters / r.eligible_voters);
+  return {
+    decided: outcomes.length,
+    pass_rate: ratio(count('passed'), outcomes.length),
+    reject_rate: ratio(count('rejected'), outcomes.length),
+    expire_rate: ratio(count('expired'), outcomes.length),
+    median_decision_hours: median(outcomes.map(r => r.decision_hours)),
+    avg_participation: rates.length ? Math.round((rates.reduce((a, b) => a + b, 0) / rates.length) * 10000) / 10000 : null,
+  };
+}
+
+export async function governanceAnalytics(db: D1Database, q: AnalyticsQuery): Promise<Record<string, unknown>> {
+  const bucket = BUCKETS[q.bucket];
+  const metrics = await db
+    .prepare(
+      `SELECT ${bucket} AS bucket, SUM(proposals_created) AS proposals_created, SUM(passed) AS passed,
+              SUM(rejected) AS rejected, SUM(expired) AS expired, SUM(votes_cast) AS votes_cast,
+              SUM(inflow_sats) AS inflow_sats, SUM(outflow_sats) AS outflow_sats, SUM(actions) AS actions
+       FROM metrics_daily WHERE (?1 IS NULL OR dao_id = ?1) AND day BETWEEN ?2 AND ?3 GROUP BY 1`
+    )
+    .bind(q.daoId, q.from, q.to).all<any>();
+
+  const outcomes = await db
+    .prepare(
+      `SELECT ${bucket} AS bucket, d.* FROM (
+         SELECT o.*, date(o.decided_at) AS day, p.title FROM proposal_outcomes o JOIN proposals p ON p.id = o.proposal_id
+         WHERE (?1 IS NULL OR o.dao_id = ?1) AND date(o.decided_at) BETWEEN ?2 AND ?3
+       ) d ORDER BY d.decided_at DESC, d.proposal_id DESC`
+    )
+    .bind(q.daoId, q.from, q.to).all<any>();
+
+  const members = await db
+    .prepare(
+      `SELECT actor AS address, SUM(actions) AS actions, SUM(votes) AS votes, SUM(proposals) AS proposals,
+              SUM(comments) AS comments, COUNT(DISTINCT dao_id) AS daos
+       FROM member_activity_daily WHERE (?1 IS NULL OR dao_id = ?1) AND day BETWEEN ?2 AND ?3
+       GROUP BY actor ORDER BY actions DESC, actor LIMIT ?4`
+    )
+    .bind(q.daoId, q.from, q.to, q.top).all();
+
+  const state = await db.prepare('SELECT rolled_up_at FROM analytics_rollups WHERE id = 1').first<{ rolled_up_at: string | null }>();
+
+  const zero = { proposals_created: 0, passed: 0, rejected: 0, expired: 0, votes_cast: 0, inflow_sats: 0, outflow_sats: 0, actions: 0 };
+  const byBucket = new Map(metrics.results.map(m => [m.bucket, m]));
+  const series = bucketKeys(q.bucket, q.from, q.to).map(key => {
+    const { bucket: _, ...m } = byBucket.get(key) ?? zero;
+    return {
+      bucket: key, ...m, net_sats: m.inflow_sats - m.outflow_sats,
+      ...decisionStats(outcomes.results.filter(o => o.bucket === key)),
+    };
+  });
+  const total = (field: keyof typeof zero) => series.reduce((sum, s) => sum + (s[field] as number), 0);
+
+  return {
+    dao_id: q.daoId === null ? null : Number(q.daoId),
+    bucket: q.bucket,
+    from: q.from,
+    to: q.to,
+    rolled_up_at: state?.rolled_up_at ?? null,
+    summary: {
+      proposals_created: total('proposals_created'),
+      votes_cast: total('votes_cast'),
+      inflow_sats: total('inflow_sats'),
+      outflow_sats: total('outflow_sats'),
+      net_sats: total('inflow_sats') - total('outflow_sats'),
+      ...decisionStats(outcomes.results),
+    },
+    series,
+    participation: outcomes.results.slice(0, RECENT_OUTCOMES).map(o => ({
+      proposal_id: o.proposal_id, dao_id: o.dao_id, title: o.title, outcome: o.outcome, decided_at: o.decided_at,
+      decision_hours: o.decision_hours, voters: o.voters, eligible_voters: o.eligible_voters,
+      participation: ratio(o.voters, o.eligible_voters),
+    })),
+    top_members: members.results,
+  };
+}
@@ -0,0 +1,141 @@
+// Audit trail — each DAO's activity as a hash chain
+//
+// Rows are sealed in id order after they are written: seq counts up from 1 per
+// DAO, prev_hash is the hash of the row before (GENESIS_HASH for the first),
+// and hash is the SHA-256 of the row's canonical JSON:
+//
+//   {"action","actor","created_at","details","metadata","prev_hash","seq"}
+//
+// with keys sorted at every level and no whitespace. Ids and dao_id are left
+// out so a chain verifies unchanged after it is imported elsewhere. Editing or
+// deleting a sealed row breaks its own hash or the next row's link; sealing
+// runs from the cron and before any verify or export, so unsealed rows are at
+// most one cron interval old. Rows can't be sealed in the batch that writes them
+// (the hash is computed here, not in SQL), so until then anyone with write
+// access to the database can change them without a trace — the chain only
+// vouches for sealed rows.
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { hex, utf8 } from '@scure/base';
+
+export const GENESIS_HASH = '0'.repeat(64);
+const SEAL_BATCH = 500;
+const MAX_REPORTED_BREAKS = 100;
+
+export interface ChainLink {
+  seq: number;
+  actor: string;
+  action: string;
+  details: string | null;
+  metadata: unknown;
+  created_at: string;
+  prev_hash: string;
+  hash?: string;
+}
+
+export interface ChainReport {
+  valid: boolean;
+  length: number;
+  head: { seq: number; hash: string } | null;
+  broken: { seq: number; id?: number; reason: string }[];
+}
+
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function sha256Hex(text: string): string {
+  return hex.encode(sha256(utf8.decode(text)));
+}
+
+export function linkHash(link: ChainLink): string {
+  return sha256Hex(canonicalJson({
+    seq: link.seq, actor: link.actor, action: link.action, details: link.details ?? null,
+    metadata: link.metadata ?? null, created_at: link.created_at, prev_hash: link.prev_hash,
+  }));
+}
+
+// A stored activity row as a chain link (metadata is kept as TEXT)
+export function toLink(row: any): ChainLink {
+  return {
+    seq: row.seq, actor: row.actor, action: row.action, details: row.details,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null, created_at: row.created_at,
+    prev_hash: row.prev_hash, hash: row.hash,
+  };
+}
+
+// Seal every unsealed row, for one DAO or all of them. Sealing is deterministic,
+// so two sealers racing write the same values; the loser's batch is skipped.
+export async function sealActivity(db: D1Database, daoId: string | number | null = null): Promise<number> {
+  const pending = await db
+    .prepare('SELECT DISTINCT dao_id FROM activity WHERE hash IS NULL AND (?1 IS NULL OR dao_id = ?1)')
+    .bind(daoId).all<{ dao_id: number }>();
+  let sealed = 0;
+
+  for (const { dao_id } of pending.results) {
+    for (;;) {
+      const head = await db
+        .prepare('SELECT seq, hash FROM activity WHERE dao_id = ? AND hash IS NOT NULL ORDER BY seq DESC LIMIT 1')
+        .bind(dao_id).first<{ seq: number; hash: string }>();
+      const rows = await db
+        .prepare('SELECT * FROM activity WHERE dao_id = ? AND hash IS NULL ORDER BY id LIMIT ?')
+        .bind(dao_id, SEAL_BATCH).all<any>();
+      if (!rows.results.length) break;
+
+      let seq = head?.seq ?? 0;
+      let prev = head?.hash ?? GENESIS_HASH;
+      const updates = rows.results.map(row => {
+        const link = { ...toLink(row), seq: ++seq, prev_hash: prev };
+        prev = linkHash(link);
+        return db
+          .prepare('UPDATE activity SET seq = ?, prev_hash = ?, hash = ? WHERE id = ? AND hash IS NULL')
+          .bind(link.seq, link.prev_hash, prev, row.id);
+      });
+      try {
+        await db.batch(updates);
+        sealed += updates.length;
+      } catch {
+        break;
+      }
+      if (rows.results.length < SEAL_BATCH) break;
+    }
+  }
+  return sealed;
+}
+
+// Walk links in seq order and report every row that doesn't fit the chain
+export function verifyChain(links: (ChainLink & { id?: number })[]): ChainReport {
+  const broken: ChainReport['broken'] = [];
+  let expected = 1;
+  let prev = GENESIS_HASH;
+
+  for (const link of links) {
+    const at = { seq: link.seq, ...(link.id !== undefined ? { id: link.id } : {}) };
+    if (link.seq !== expected) broken.push({ ...at, reason: `expected seq ${expected}` });
+    if (link.prev_hash !== prev) broken.push({ ...at, reason: 'prev_hash does not match the previous row' });
+    if (linkHash(link) !== link.hash) broken.push({ ...at, reason: 'hash does not match the row' });
+    expected = link.seq + 1;
+    prev = link.hash!;
+  }
+
+  const last = links[links.length - 1];
+  return {
+    valid: broken.length === 0,
+    length: links.length,
+    head: last ? { seq: last.seq, hash: last.hash! } : null,
+    broken: broken.slice(0, MAX_REPORTED_BREAKS),
+  };
+}
+
+export async function daoChain(db: D1Database, daoId: string | number): Promise<any[]> {
+  await sealActivity(db, daoId);
+  const rows = await db
+    .prepare('SELECT * FROM activity WHERE dao_id = ? AND hash IS NOT NULL ORDER BY seq')
+    .bind(daoId).all();
+  return rows.results;
+}
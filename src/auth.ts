@@ -0,0 +1,377 @@
+// Request signing — every mutating endpoint carries a signature over
+// route + body hash + nonce + timestamp, made by a BTC or STX key.
+//
+// Headers:
+//   X-Signer     BTC address (bc1q/bc1p/1/3) or STX address (SP/ST)
+//   X-Signature  base64 BIP-137 / BIP-322 (simple) for BTC, hex RSV for STX
+//   X-Nonce      random string, single use per signer
+//   X-Timestamp  unix seconds, must be within MAX_SKEW_SECONDS of now
+//
+// Signed message (lines joined with \n):
+//   DAO Factory request
+//   <METHOD> <path>
+//   nonce: <nonce>
+//   timestamp: <timestamp>
+//   body: <sha256 hex of raw body>
+
+import { secp256k1, schnorr } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { ripemd160 } from '@noble/hashes/legacy.js';
+import { base64, bech32, bech32m, createBase58check, hex, utf8 } from '@scure/base';
+
+const MAX_SKEW_SECONDS = 300;
+const base58check = createBase58check(sha256);
+
+export type AuthErrorCode =
+  | 'signature_missing'
+  | 'signature_expired'
+  | 'signature_invalid'
+  | 'nonce_reused'
+  | 'signer_mismatch';
+
+export type AuthResult =
+  | { ok: true; signer: string; body: any }
+  | { ok: false; code: AuthErrorCode | 'invalid_body'; error: string };
+
+export function signingMessage(method: string, path: string, nonce: string, timestamp: string, bodyHash: string): string {
+  return [
+    'DAO Factory request',
+    `${method.toUpperCase()} ${path}`,
+    `nonce: ${nonce}`,
+    `timestamp: ${timestamp}`,
+    `body: ${bodyHash}`,
+  ].join('\n');
+}
+
+// Verify the request signature and burn its nonce. Returns the parsed JSON body.
+export async function verifyRequest(request: Request, db: D1Database, path: string): Promise<AuthResult> {
+  const signer = request.headers.get('X-Signer');
+  const signature = request.headers.get('X-Signature');
+  const nonce = request.headers.get('X-Nonce');
+  const timestamp = request.headers.get('X-Timestamp');
+  if (!signer || !signature || !nonce || !timestamp) {
+    return { ok: false, code: 'signature_missing', error: 'Required headers: X-Signer, X-Signature, X-Nonce, X-Timestamp' };
+  }
+  if (!/^[A-Za-z0-9_-]{8,128}$/.test(nonce)) {
+    return { ok: false, code: 'signature_invalid', error: 'X-Nonce must be 8-128 characters of [A-Za-z0-9_-]' };
+  }
+
+  const ts = Number(timestamp);
+  if (!Number.isInteger(ts) || Math.abs(Date.now() / 1000 - ts) > MAX_SKEW_SECONDS) {
+    return { ok: false, code: 'signature_expired', error: `X-Timestamp must be within ${MAX_SKEW_SECONDS}s of server time` };
+  }
+
+  const raw = await request.text();
+  const message = signingMessage(request.method, path, nonce, timestamp, hex.encode(sha256(utf8.decode(raw))));
+
+  if (!verifyMessage(signer, signature, message)) return { ok: false, code: 'signature_invalid', error: 'Signature does not verify for X-Signer' };
+
+  let body: any;
+  try {
+    body = raw ? JSON.parse(raw) : {};
+  } catch {
+    return { ok: false, code: 'invalid_body', error: 'Body must be valid JSON' };
+  }
+
+  // Nonce is burned only after the signature checks out, so garbage requests can't exhaust it
+  const burned = await db
+    .prepare('INSERT OR IGNORE INTO auth_nonces (signer, nonce) VALUES (?, ?)')
+    .bind(signer, nonce).run();
+  if (!burned.meta.changes) return { ok: false, code: 'nonce_reused', error: 'Nonce already used' };
+
+  return { ok: true, signer, body };
+}
+
+// Does `signature` sign `message` for `address`? BTC or STX, picked by the address; false on malformed input.
+export function verifyMessage(address: string, signature: string, message: string): boolean {
+  try {
+    return isStacksAddress(address)
+      ? verifyStacksMessage(address, signature, message)
+      : verifyBitcoinMessage(address, signature, message);
+  } catch {
+    return false;
+  }
+}
+
+// Nonces older than the skew window can never be replayed, so they can go
+export async function purgeNonces(db: D1Database): Promise<void> {
+  await db
+    .prepare('DELETE FROM auth_nonces WHERE created_at < datetime(\'now\', ?)')
+    .bind(`-${MAX_SKEW_SECONDS * 2} seconds`).run();
+}
+
+// A signer acts for `actor` if it is that address, or the STX address registered
+// for that BTC address in the DAO.
+export async function signerMatches(db: D1Database, daoId: string | number, actor: string, signer: string): Promise<boolean> {
+  if (signer === actor) return true;
+  if (!isStacksAddress(signer)) return false;
+  const row = await db
+    .prepare('SELECT id FROM members WHERE dao_id = ? AND btc_address = ? AND stx_address = ?')
+    .bind(daoId, actor, signer).first();
+  return !!row;
+}
+
+// Storing an stx_address next to a btc_address lets the STX key act for the member,
+// so both keys must agree: one signs the request, the other signs this message.
+export function linkMessage(btcAddress: string, stxAddress: string): string {
+  return ['DAO Factory address link', `btc: ${btcAddress}`, `stx: ${stxAddress}`].join('\n');
+}
+
+// `proof` is the link message signed by whichever of the two addresses did not sign the request
+export function verifyAddressLink(btcAddress: string, stxAddress: string, signer: string, proof: unknown): boolean {
+  if (typeof proof !== 'string' || !isStacksAddress(stxAddress)) return false;
+  const message = linkMessage(btcAddress, stxAddress);
+  try {
+    if (signer === btcAddress) return verifyStacksMessage(stxAddress, proof, message);
+    if (signer === stxAddress) return verifyBitcoinMessage(btcAddress, proof, message);
+  } catch {
+    return false;
+  }
+  return false;
+}
+
+// ── Bitcoin ──
+
+type BtcScript =
+  | { type: 'p2pkh'; hash: Uint8Array }
+  | { type: 'p2sh'; hash: Uint8Array }
+  | { type: 'p2wpkh'; hash: Uint8Array }
+  | { type: 'p2tr'; key: Uint8Array };
+
+function verifyBitcoinMessage(address: string, signature: string, message: string): boolean {
+  const script = decodeBtcAddress(address);
+  const sig = base64.decode(signature);
+  if (sig.length === 65 && sig[0] >= 27 && sig[0] <= 42) return verifyBip137(script, sig, message);
+  return verifyBip322Simple(script, sig, message);
+}
+
+function verifyBip137(script: BtcScript, sig: Uint8Array, message: string): boolean {
+  const header = sig[0];
+  const recovery = (header - 27) & 3;
+  const compressed = header >= 31;
+  const digest = sha256d(concat(varStr(utf8.decode('Bitcoin Signed Message:\n')), varStr(utf8.decode(message))));
+  const point = secp256k1.Signature.fromBytes(sig.subarray(1), 'compact')
+    .addRecoveryBit(recovery)
+    .recoverPublicKey(digest);
+  const pubkey = point.toBytes(compressed);
+
+  switch (script.type) {
+    case 'p2pkh':
+      return equal(hash160(pubkey), script.hash);
+    case 'p2wpkh':
+      return compressed && equal(hash160(pubkey), script.hash);
+    case 'p2sh':
+      // Only P2SH-P2WPKH can be proven with a message signature
+      return compressed && equal(hash160(concat(Uint8Array.of(0x00, 0x14), hash160(pubkey))), script.hash);
+    default:
+      return false;
+  }
+}
+
+// BIP-322 "simple" signatures for native segwit (P2WPKH) and taproot key-path (P2TR)
+function verifyBip322Simple(script: BtcScript, sig: Uint8Array, message: string): boolean {
+  const witness = readWitness(sig);
+  const scriptPubKey = scriptPubKeyFor(script);
+  const messageHash = schnorr.utils.taggedHash('BIP0322-signed-message', utf8.decode(message));
+
+  // to_spend: spends a virtual outpoint, commits to the message in scriptSig
+  const toSpend = concat(
+    u32le(0),
+    Uint8Array.of(1), new Uint8Array(32), u32le(0xffffffff),
+    varStr(concat(Uint8Array.of(0x00, 0x20), messageHash)), u32le(0),
+    Uint8Array.of(1), u64le(0), varStr(scriptPubKey),
+    u32le(0),
+  );
+  const outpoint = concat(sha256d(toSpend), u32le(0));
+  // to_sign has a single OP_RETURN output worth 0
+  const outputs = concat(u64le(0), varStr(Uint8Array.of(0x6a)));
+
+  if (script.type === 'p2wpkh') {
+    if (witness.length !== 2) return false;
+    const [derWithType, pubkey] = witness;
+    if (derWithType[derWithType.length - 1] !== 0x01) return false; // SIGHASH_ALL
+    if (!equal(hash160(pubkey), script.hash)) return false;
+    const scriptCode = concat(Uint8Array.of(0x19, 0x76, 0xa9, 0x14), script.hash, Uint8Array.of(0x88, 0xac));
+    const preimage = concat(
+      u32le(0),
+      sha256d(outpoint),
+      sha256d(u32le(0)),
+      outpoint,
+      scriptCode,
+      u64le(0),
+      u32le(0),
+      sha256d(outputs),
+      u32le(0),
+      u32le(0x01),
+    );
+    return secp256k1.verify(derWithType.subarray(0, -1), sha256d(preimage), pubkey, { prehash: false, format: 'der', lowS: false });
+  }
+
+  if (script.type === 'p2tr') {
+    if (witness.length !== 1) return false;
+    const raw = witness[0];
+    if (raw.length !== 64 && raw.length !== 65) return false;
+    const hashType = raw.length === 65 ? raw[64] : 0x00;
+    if (hashType !== 0x00 && hashType !== 0x01) return false;
+    const sigMsg = concat(
+      Uint8Array.of(0x00, hashType),
+      u32le(0), u32le(0),
+      sha256(outpoint),
+      sha256(u64le(0)),
+      sha256(varStr(scriptPubKey)),
+      sha256(u32le(0)),
+      sha256(outputs),
+      Uint8Array.of(0x00),
+      u32le(0),
+    );
+    const sighash = schnorr.utils.taggedHash('TapSighash', sigMsg);
+    return schnorr.verify(raw.subarray(0, 64), sighash, script.key);
+  }
+
+  return false;
+}
+
+function decodeBtcAddress(address: string): BtcScript {
+  const lower = address.toLowerCase();
+  if (/^(bc|tb|bcrt)1/.test(lower)) {
+    const isV0 = lower.charAt(lower.indexOf('1') + 1) === 'q';
+    const { words } = (isV0 ? bech32 : bech32m).decode(lower as `${string}1${string}`);
+    const program = Uint8Array.from(bech32.fromWords(words.slice(1)));
+    if (words[0] === 0 && program.length === 20) return { type: 'p2wpkh', hash: program };
+    if (words[0] === 1 && program.length === 32) return { type: 'p2tr', key: program };
+    throw new Error('Unsupported segwit address');
+  }
+  const payload = base58check.decode(address);
+  if (payload.length !== 21) throw new Error('Invalid base58 address');
+  if (payload[0] === 0x00 || payload[0] === 0x6f) return { type: 'p2pkh', hash: payload.subarray(1) };
+  if (payload[0] === 0x05 || payload[0] === 0xc4) return { type: 'p2sh', hash: payload.subarray(1) };
+  throw new Error('Unknown address version');
+}
+
+function scriptPubKeyFor(script: BtcScript): Uint8Array {
+  switch (script.type) {
+    case 'p2wpkh': return concat(Uint8Array.of(0x00, 0x14), script.hash);
+    case 'p2tr': return concat(Uint8Array.of(0x51, 0x20), script.key);
+    case 'p2pkh': return concat(Uint8Array.of(0x76, 0xa9, 0x14), script.hash, Uint8Array.of(0x88, 0xac));
+    case 'p2sh': return concat(Uint8Array.of(0xa9, 0x14), script.hash, Uint8Array.of(0x87));
+  }
+}
+
+function readWitness(data: Uint8Array): Uint8Array[] {
+  let pos = 0;
+  const readVarInt = (): number => {
+    const first = data[pos++];
+    if (first < 0xfd) return first;
+    const size = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    let n = 0;
+    for (let i = 0; i < size; i++) n += data[pos++] * 2 ** (8 * i);
+    return n;
+  };
+  const count = readVarInt();
+  const items: Uint8Array[] = [];
+  for (let i = 0; i < count; i++) {
+    const len = readVarInt();
+    if (pos + len > data.length) throw new Error('Truncated witness');
+    items.push(data.subarray(pos, pos + len));
+    pos += len;
+  }
+  if (pos !== data.length) throw new Error('Trailing witness bytes');
+  return items;
+}
+
+// ── Stacks ──
+
+const C32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export function isStacksAddress(address: string): boolean {
+  return /^S[PTMN][0-9A-HJKMNP-TV-Z]{38,40}$/.test(address);
+}
+
+// Standard principal (SP…) or contract principal (SP….name) that receives sBTC
+export function isPrincipal(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  const [address, contract, ...rest] = value.split('.');
+  return isStacksAddress(address) && !rest.length && (contract === undefined || /^[a-zA-Z][a-zA-Z0-9-]{0,39}$/.test(contract));
+}
+
+function verifyStacksMessage(address: string, signature: string, message: string): boolean {
+  const sig = hex.decode(signature.replace(/^0x/, ''));
+  if (sig.length !== 65) return false;
+  const msg = utf8.decode(message);
+  const digest = sha256(concat(utf8.decode('\x17Stacks Signed Message:\n'), varInt(msg.length), msg));
+  const version = address.charAt(1) === 'P' ? 22 : 26;
+
+  // Wallets emit RSV; some older tooling emits VRS
+  const layouts: Array<[Uint8Array, number]> = [[sig.subarray(0, 64), sig[64]], [sig.subarray(1), sig[0]]];
+  for (const [rs, v] of layouts) {
+    if (v > 3) continue;
+    const point = secp256k1.Signature.fromBytes(rs, 'compact').addRecoveryBit(v).recoverPublicKey(digest);
+    for (const compressed of [true, false]) {
+      if (c32address(version, hash160(point.toBytes(compressed))) === address) return true;
+    }
+  }
+  return false;
+}
+
+function c32address(version: number, hash: Uint8Array): string {
+  const checksum = sha256d(concat(Uint8Array.of(version), hash)).subarray(0, 4);
+  return 'S' + C32[version] + c32encode(concat(hash, checksum));
+}
+
+function c32encode(data: Uint8Array): string {
+  let n = BigInt('0x' + (hex.encode(data) || '0'));
+  let out = '';
+  while (n > 0n) {
+    out = C32[Number(n % 32n)] + out;
+    n /= 32n;
+  }
+  let zeros = 0;
+  while (zeros < data.length && data[zeros] === 0) zeros++;
+  return '0'.repeat(zeros) + out;
+}
+
+// ── Byte helpers ──
+
+function sha256d(data: Uint8Array): Uint8Array {
+  return sha256(sha256(data));
+}
+
+function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256(data));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.length;
+  }
+  return out;
+}
+
+function equal(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function u32le(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n, true);
+  return out;
+}
+
+function u64le(n: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(n), true);
+  return out;
+}
+
+function varInt(n: number): Uint8Array {
+  if (n < 0xfd) return Uint8Array.of(n);
+  if (n <= 0xffff) return Uint8Array.of(0xfd, n & 0xff, n >> 8);
+  return concat(Uint8Array.of(0xfe), u32le(n));
+}
+
+function varStr(data: Uint8Array): Uint8Array {
+  return concat(varInt(data.length), data);
+}
@@ -0,0 +1,72 @@
+// Bounties — DAO tasks with a sats reward held in escrow
+//
+//   open ─assign→ assigned ─submit→ submitted ─review: approve→ paid
+//                    ↑                  │ review: revise
+//                    └──────────────────┤
+//                                       └ review: dispute → disputed ─resolve→ paid | cancelled
+//   open | assigned ─cancel→ cancelled
+//
+// A bounty is posted by passing a 'bounty' proposal, which moves the reward
+// from the treasury into escrow:bounty:<id>. Payment moves it from escrow to
+// the assignee; cancelling releases it back to the treasury. Anyone may apply,
+// member or not. Admins assign, cancel and resolve disputes; reviews must come
+// from an admin other than the assignee.
+//
+// Every transition updates the bounty only from the status it was read in, and
+// the entries that empty the escrow only go in once (see drainEscrowEntry), so
+// requests that race can't move the reward twice.
+
+import { activity } from './activity';
+import { bountyPayoutEntry, releaseBountyEntry, reserveBountyEntry, syncTreasury } from './treasury';
+
+export const BOUNTY_STATUSES = ['open', 'assigned', 'submitted', 'disputed', 'paid', 'cancelled'] as const;
+export type BountyStatus = typeof BOUNTY_STATUSES[number];
+
+// Bounties that still hold their reward in escrow
+export const UNSETTLED: readonly BountyStatus[] = ['open', 'assigned', 'submitted', 'disputed'];
+
+// Create the bounty for a passed proposal and reserve its reward
+export function postBounty(db: D1Database, dao: any, proposal: any): D1PreparedStatement[] {
+  return [
+    db.prepare('INSERT INTO bounties (dao_id, proposal_id, title, description, reward_sats, created_by) VALUES (?, ?, ?, ?, ?, ?)')
+      .bind(dao.id, proposal.id, proposal.title, proposal.description || null, proposal.amount_sats, proposal.proposer),
+    reserveBountyEntry(db, proposal.id),
+    syncTreasury(db, dao.id),
+    activity(db, dao.id, 'system', 'bounty_posted', `Bounty "${proposal.title}" posted with ${proposal.amount_sats} sats reserved`,
+      { proposal_id: proposal.id, reward_sats: proposal.amount_sats }),
+  ];
+}
+
+// The first statement is the status change; it changes nothing if the bounty has moved on since it was read
+export function payBounty(db: D1Database, bounty: any, actor: string, note: string | null): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `UPDATE bounties SET status = 'paid', reviewed_by = ?, review_note = ?, closed_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ? AND status = ?`
+    ).bind(actor, note, bounty.id, bounty.status),
+    bountyPayoutEntry(db, bounty, `Bounty "${bounty.title}"`),
+    activity(db, bounty.dao_id, actor, 'bounty_paid', `${bounty.reward_sats} sats paid to ${bounty.assignee} for "${bounty.title}"`,
+      { bounty_id: bounty.id, assignee: bounty.assignee, reward_sats: bounty.reward_sats }),
+  ];
+}
+
+export function cancelBounty(db: D1Database, bounty: any, actor: string, reason: string): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `UPDATE bounties SET status = 'cancelled', review_note = COALESCE(?, review_note), closed_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ? AND status = ?`
+    ).bind(reason, bounty.id, bounty.status),
+    releaseBountyEntry(db, bounty, `Bounty "${bounty.title}" cancelled`),
+    syncTreasury(db, bounty.dao_id),
+    activity(db, bounty.dao_id, actor, 'bounty_cancelled', `Bounty "${bounty.title}" cancelled, ${bounty.reward_sats} sats back in the treasury: ${reason}`,
+      { bounty_id: bounty.id, reward_sats: bounty.reward_sats, reason }),
+  ];
+}
+
+// Cancel every bounty still holding escrow — used when a DAO dissolves
+export async function cancelUnsettledBounties(db: D1Database, daoId: string | number, reason: string): Promise<D1PreparedStatement[]> {
+  const open = await db
+    .prepare(`SELECT * FROM bounties WHERE dao_id = ? AND status IN (${UNSETTLED.map(() => '?').join(', ')})`)
+    .bind(daoId, ...UNSETTLED).all();
+  return (open.results as any[]).flatMap(b => cancelBounty(db, b, 'system', reason));
+}
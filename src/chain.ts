@@ -0,0 +1,109 @@
+// Chain indexer — looks up sBTC transfers for deposit verification and
+// deployed contract sources
+//
+// The Worker only talks to the ChainIndexer interface. Production uses the
+// Stacks API; CHAIN_INDEXER = "static" swaps in a fixture-backed indexer
+// (CHAIN_FIXTURES, a JSON map of tx id → ChainTx, and CHAIN_CONTRACT_FIXTURES,
+// a JSON map of contract principal → source) for local dev and tests.
+
+export const DEFAULT_STACKS_API_URL = 'https://api.hiro.so';
+export const DEFAULT_SBTC_ASSET_ID = 'SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token::sbtc-token';
+
+export interface SbtcTransfer {
+  sender: string;
+  recipient: string;
+  amount_sats: number;
+}
+
+export interface ChainTx {
+  tx_id: string;
+  status: 'pending' | 'success' | 'failed';
+  block_height: number | null;
+  confirmations: number;
+  transfers: SbtcTransfer[];
+}
+
+export interface ChainIndexer {
+  // null when the indexer has never seen the transaction
+  getTransaction(txId: string): Promise<ChainTx | null>;
+  // null when no contract is deployed at the principal
+  getContractSource(principal: string): Promise<string | null>;
+}
+
+export interface ChainEnv {
+  CHAIN_INDEXER?: string;
+  CHAIN_FIXTURES?: string;
+  CHAIN_CONTRACT_FIXTURES?: string;
+  STACKS_API_URL?: string;
+  SBTC_ASSET_ID?: string;
+}
+
+export function chainIndexer(env: ChainEnv): ChainIndexer {
+  if (env.CHAIN_INDEXER === 'static') {
+    return new StaticChainIndexer(JSON.parse(env.CHAIN_FIXTURES || '{}'), JSON.parse(env.CHAIN_CONTRACT_FIXTURES || '{}'));
+  }
+  return new StacksApiIndexer(env.STACKS_API_URL || DEFAULT_STACKS_API_URL, env.SBTC_ASSET_ID || DEFAULT_SBTC_ASSET_ID);
+}
+
+export function normalizeTxId(txId: string): string | null {
+  const hex = txId.trim().toLowerCase().replace(/^0x/, '');
+  return /^[0-9a-f]{64}$/.test(hex) ? `0x${hex}` : null;
+}
+
+export class StacksApiIndexer implements ChainIndexer {
+  constructor(private baseUrl: string, private assetId: string) {}
+
+  async getTransaction(txId: string): Promise<ChainTx | null> {
+    const res = await fetch(`${this.baseUrl}/extended/v1/tx/${txId}?event_limit=200`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Stacks API ${res.status} for ${txId}`);
+    const tx = await res.json() as any;
+
+    const transfers: SbtcTransfer[] = (tx.events || [])
+      .filter((e: any) => e.event_type === 'fungible_token_asset'
+        && e.asset?.asset_event_type === 'transfer'
+        && e.asset?.asset_id === this.assetId)
+      .map((e: any) => ({ sender: e.asset.sender, recipient: e.asset.recipient, amount_sats: Number(e.asset.amount) }));
+
+    if (tx.tx_status === 'pending') {
+      return { tx_id: txId, status: 'pending', block_height: null, confirmations: 0, transfers };
+    }
+
+    const tip = await this.tipHeight();
+    return {
+      tx_id: txId,
+      status: tx.tx_status === 'success' ? 'success' : 'failed',
+      block_height: tx.block_height ?? null,
+      confirmations: tx.block_height ? Math.max(tip - tx.block_height + 1, 0) : 0,
+      transfers,
+    };
+  }
+
+  async getContractSource(principal: string): Promise<string | null> {
+    const [address, name] = principal.split('.');
+    const res = await fetch(`${this.baseUrl}/v2/contracts/source/${address}/${name}?proof=0`);
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`Stacks API ${res.status} for ${principal}`);
+    const contract = await res.json() as any;
+    return contract.source ?? null;
+  }
+
+  private async tipHeight(): Promise<number> {
+    const res = await fetch(`${this.baseUrl}/extended`);
+    if (!res.ok) throw new Error(`Stacks API ${res.status} for chain tip`);
+    const status = await res.json() as any;
+    return status.chain_tip?.block_height || 0;
+  }
+}
+
+export class StaticChainIndexer implements ChainIndexer {
+  constructor(private fixtures: Record<string, ChainTx>, private contracts: Record<string, string> = {}) {}
+
+  async getTransaction(txId: string): Promise<ChainTx | null> {
+    return this.fixtures[txId] || null;
+  }
+
+  async getContractSource(principal: string): Promise<string | null> {
+    return this.contracts[principal] ?? null;
+  }
+}
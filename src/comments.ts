@@ -0,0 +1,61 @@
+// Proposal discussion — threaded comments
+//
+// Members comment on a proposal or reply to any comment on it. Replies carry
+// the thread_id of the top-level comment they hang under (NULL on top-level
+// comments), so a page of threads loads with one query. Authors can edit within EDIT_WINDOW_MINUTES
+// of posting; admins soft-delete, which blanks the body but keeps the comment
+// in place so replies stay attached. proposals.comment_count counts comments
+// that haven't been deleted.
+
+import { activity } from './activity';
+import { toSqlTime } from './governance';
+
+export const MAX_COMMENT_LENGTH = 5000;
+export const EDIT_WINDOW_MINUTES = 15;
+
+export function validBody(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_COMMENT_LENGTH;
+}
+
+export function postComment(db: D1Database, proposal: any, author: string, body: string, parent: any | null): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      'INSERT INTO comments (dao_id, proposal_id, parent_id, thread_id, author, body) VALUES (?, ?, ?, ?, ?, ?)'
+    ).bind(proposal.dao_id, proposal.id, parent?.id ?? null, parent ? parent.thread_id ?? parent.id : null, author, body),
+    db.prepare('UPDATE proposals SET comment_count = comment_count + 1 WHERE id = ?').bind(proposal.id),
+    activity(db, proposal.dao_id, author, 'commented',
+      parent ? `Replied to ${parent.author} on "${proposal.title}"` : `Commented on "${proposal.title}"`,
+      { proposal_id: proposal.id, parent_id: parent?.id ?? null }),
+  ];
+}
+
+export function editable(comment: any, now = Date.now()): boolean {
+  return !comment.deleted_at && toSqlTime(now - EDIT_WINDOW_MINUTES * 60_000) <= comment.created_at;
+}
+
+// The soft-delete comes first; callers run it alone and only apply the rest when it changed a row
+export function deleteComment(db: D1Database, comment: any, actor: string): D1PreparedStatement[] {
+  return [
+    db.prepare('UPDATE comments SET deleted_at = datetime(\'now\'), deleted_by = ? WHERE id = ? AND deleted_at IS NULL')
+      .bind(actor, comment.id),
+    db.prepare('UPDATE proposals SET comment_count = comment_count - 1 WHERE id = ?').bind(comment.proposal_id),
+    activity(db, comment.dao_id, actor, 'comment_deleted', `Deleted a comment by ${comment.author}`,
+      { comment_id: comment.id, proposal_id: comment.proposal_id, author: comment.author }),
+  ];
+}
+
+// Comment as returned by the API — deleted comments keep their place but lose their body
+export function publicComment(comment: any): any {
+  return comment.deleted_at ? { ...comment, body: null } : comment;
+}
+
+// Nest a flat list of comments under their parents, oldest first
+export function nestComments(comments: any[]): any[] {
+  const byId = new Map<number, any>(comments.map(c => [c.id, { ...publicComment(c), replies: [] }]));
+  const roots: any[] = [];
+  for (const c of byId.values()) {
+    const parent = c.parent_id ? byId.get(c.parent_id) : null;
+    (parent ? parent.replies : roots).push(c);
+  }
+  return roots;
+}
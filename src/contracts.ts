@@ -0,0 +1,175 @@
+// Clarity contracts — an on-chain sBTC treasury generated from a DAO's settings
+//
+// The contract is a multisig: every member with an stx_address is a signer,
+// admins can add and remove signers, and a transfer executes once enough
+// signers approved it — approval_threshold percent of the current signers,
+// rounded up — and it is within spend_limit_sats (0 = no limit).
+//
+// Rendering is deterministic: the same DAO settings and members always give
+// byte-identical source, so its SHA-256 identifies the configuration. Once the
+// contract is deployed and recorded as the DAO's contract_principal (through a
+// settings proposal), the deployed source can be hashed and compared.
+
+import { DEFAULT_SBTC_ASSET_ID } from './chain';
+
+export const CLARITY_VERSION = 2;
+
+const TREASURY_TEMPLATE = `;; {{contract_name}} - sBTC treasury for DAO "{{dao_name}}" (#{{dao_id}})
+;; Generated by DAO Factory from the DAO's settings; edits change its hash.
+
+(define-constant ERR-INVALID-AMOUNT (err u400))
+(define-constant ERR-NOT-SIGNER (err u401))
+(define-constant ERR-NOT-ADMIN (err u403))
+(define-constant ERR-UNKNOWN-PROPOSAL (err u404))
+(define-constant ERR-ALREADY-APPROVED (err u409))
+(define-constant ERR-ALREADY-EXECUTED (err u410))
+(define-constant ERR-NOT-ENOUGH-APPROVALS (err u412))
+(define-constant ERR-OVER-SPEND-LIMIT (err u413))
+(define-constant ERR-LAST-ADMIN (err u422))
+
+;; Percent of signers that must approve a transfer
+(define-constant APPROVAL-PCT u{{approval_threshold}})
+;; Largest single transfer in sats, u0 = no limit
+(define-constant SPEND-LIMIT u{{spend_limit_sats}})
+
+;; Signer -> is admin
+(define-map signers principal bool)
+(define-data-var signer-count uint u0)
+(define-data-var admin-count uint u0)
+
+(define-map proposals uint {
+  recipient: principal, amount: uint, memo: (optional (buff 34)), proposer: principal, approvals: uint, executed: bool
+})
+(define-map approvals { proposal: uint, signer: principal } bool)
+(define-data-var last-proposal uint u0)
+
+(define-read-only (is-signer (who principal)) (is-some (map-get? signers who)))
+(define-read-only (is-admin (who principal)) (default-to false (map-get? signers who)))
+(define-read-only (get-signer-count) (var-get signer-count))
+(define-read-only (get-proposal (id uint)) (map-get? proposals id))
+
+(define-read-only (required-approvals)
+  (let ((needed (/ (+ (* (var-get signer-count) APPROVAL-PCT) u99) u100)))
+    (if (> needed u0) needed u1)))
+
+(define-private (put-signer (who principal) (admin bool))
+  (begin
+    (match (map-get? signers who)
+      was-admin (if was-admin (var-set admin-count (- (var-get admin-count) u1)) true)
+      (var-set signer-count (+ (var-get signer-count) u1)))
+    (if admin (var-set admin-count (+ (var-get admin-count) u1)) true)
+    (map-set signers who admin)))
+
+(define-public (set-signer (who principal) (admin bool))
+  (begin
+    (asserts! (is-admin tx-sender) ERR-NOT-ADMIN)
+    (asserts! (or admin (not (is-admin who)) (> (var-get admin-count) u1)) ERR-LAST-ADMIN)
+    (ok (put-signer who admin))))
+
+(define-public (remove-signer (who principal))
+  (let ((was-admin (unwrap! (map-get? signers who) ERR-NOT-SIGNER)))
+    (asserts! (is-admin tx-sender) ERR-NOT-ADMIN)
+    (asserts! (or (not was-admin) (> (var-get admin-count) u1)) ERR-LAST-ADMIN)
+    (map-delete signers who)
+    (var-set signer-count (- (var-get signer-count) u1))
+    (if was-admin (var-set admin-count (- (var-get admin-count) u1)) true)
+    (ok true)))
+
+(define-public (approve (id uint))
+  (let ((proposal (unwrap! (map-get? proposals id) ERR-UNKNOWN-PROPOSAL)))
+    (asserts! (is-signer tx-sender) ERR-NOT-SIGNER)
+    (asserts! (not (get executed proposal)) ERR-ALREADY-EXECUTED)
+    (asserts! (map-insert approvals { proposal: id, signer: tx-sender } true) ERR-ALREADY-APPROVED)
+    (map-set proposals id (merge proposal { approvals: (+ (get approvals proposal) u1) }))
+    (ok true)))
+
+;; The proposer's approval is counted straight away
+(define-public (propose-transfer (amount uint) (recipient principal) (memo (optional (buff 34))))
+  (let ((id (+ (var-get last-proposal) u1)))
+    (asserts! (is-signer tx-sender) ERR-NOT-SIGNER)
+    (asserts! (> amount u0) ERR-INVALID-AMOUNT)
+    (asserts! (or (is-eq SPEND-LIMIT u0) (<= amount SPEND-LIMIT)) ERR-OVER-SPEND-LIMIT)
+    (map-set proposals id { recipient: recipient, amount: amount, memo: memo, proposer: tx-sender, approvals: u0, executed: false })
+    (var-set last-proposal id)
+    (try! (approve id))
+    (ok id)))
+
+(define-public (execute (id uint))
+  (let ((proposal (unwrap! (map-get? proposals id) ERR-UNKNOWN-PROPOSAL)))
+    (asserts! (is-signer tx-sender) ERR-NOT-SIGNER)
+    (asserts! (not (get executed proposal)) ERR-ALREADY-EXECUTED)
+    (asserts! (>= (get approvals proposal) (required-approvals)) ERR-NOT-ENOUGH-APPROVALS)
+    (map-set proposals id (merge proposal { executed: true }))
+    (as-contract (contract-call? '{{sbtc_token}} transfer
+      (get amount proposal) tx-sender (get recipient proposal) (get memo proposal)))))
+
+;; Signers at generation time
+{{signers}}
+`;
+
+export interface ContractSigner {
+  principal: string;
+  admin: boolean;
+}
+
+export interface TreasuryContract {
+  contract_name: string;
+  clarity_version: number;
+  sbtc_token: string;
+  approval_threshold: number;
+  spend_limit_sats: number;
+  signers: ContractSigner[];
+  // Members left out because they have no stx_address
+  unsigned_members: string[];
+  source: string;
+  sha256: string;
+}
+
+export function contractName(daoId: number): string {
+  return `dao-${daoId}-treasury`;
+}
+
+function render(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => {
+    if (vars[key] === undefined) throw new Error(`Template variable ${key} is not set`);
+    return vars[key];
+  });
+}
+
+export async function contractHash(source: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Returns an error string when the DAO can't be expressed as a contract yet
+export async function treasuryContract(dao: any, members: any[], sbtcAssetId = DEFAULT_SBTC_ASSET_ID): Promise<TreasuryContract | string> {
+  const signers = members
+    .filter(m => m.stx_address)
+    .map(m => ({ principal: m.stx_address as string, admin: m.role === 'admin' }))
+    .sort((a, b) => (a.principal < b.principal ? -1 : a.principal > b.principal ? 1 : 0));
+  if (!signers.some(s => s.admin)) return 'At least one admin needs an stx_address to sign for the contract';
+
+  const name = contractName(dao.id);
+  const sbtcToken = sbtcAssetId.split('::')[0];
+  const source = render(TREASURY_TEMPLATE, {
+    contract_name: name,
+    dao_name: String(dao.name).replace(/[\r\n]+/g, ' ').replace(/[^\x20-\x7e]/g, '?'),
+    dao_id: String(dao.id),
+    approval_threshold: String(dao.approval_threshold),
+    spend_limit_sats: String(dao.spend_limit_sats || 0),
+    sbtc_token: sbtcToken,
+    signers: signers.map(s => `(put-signer '${s.principal} ${s.admin})`).join('\n'),
+  });
+
+  return {
+    contract_name: name,
+    clarity_version: CLARITY_VERSION,
+    sbtc_token: sbtcToken,
+    approval_threshold: dao.approval_threshold,
+    spend_limit_sats: dao.spend_limit_sats || 0,
+    signers,
+    unsigned_members: members.filter(m => !m.stx_address).map(m => m.btc_address).sort(),
+    source,
+    sha256: await contractHash(source),
+  };
+}
@@ -0,0 +1,71 @@
+// Per-address dashboard — everything one member needs across all their DAOs
+//
+// An address may be given as the btc_address members are keyed by or as a
+// member's stx_address; both resolve to the same memberships. Deposits count
+// under either address, matching how contributions are credited.
+
+export async function memberDashboard(db: D1Database, address: string, votesLimit: number): Promise<Record<string, unknown>> {
+  const memberships = await db
+    .prepare(
+      `SELECT m.dao_id, daos.name AS dao_name, daos.status AS dao_status, m.btc_address, m.stx_address, m.role,
+              m.display_name, m.joined_at, daos.member_count, daos.treasury_sats
+       FROM members m JOIN daos ON daos.id = m.dao_id
+       WHERE m.btc_address = ?1 OR m.stx_address = ?1 ORDER BY m.joined_at`
+    )
+    .bind(address).all<any>();
+  const rows = memberships.results;
+  const voters = [...new Set([address, ...rows.map(m => m.btc_address)])];
+  const aliases = [...new Set([...voters, ...rows.map(m => m.stx_address).filter(Boolean)])];
+  const list = (values: string[]) => values.map(() => '?').join(', ');
+
+  // Active proposals still open for voting where this member hasn't voted, soonest deadline first
+  const inbox = await db
+    .prepare(
+      `SELECT p.id, p.dao_id, daos.name AS dao_name, p.title, p.action_type, p.amount_sats, p.proposer,
+              p.votes_for, p.votes_against, p.votes_abstain, p.total_weight, p.voting_ends_at, p.comment_count,
+              COALESCE(
+                (SELECT delegate FROM delegations d WHERE d.dao_id = p.dao_id AND d.delegator = m.btc_address AND d.proposal_id = p.id),
+                (SELECT delegate FROM delegations d WHERE d.dao_id = p.dao_id AND d.delegator = m.btc_address AND d.proposal_id IS NULL)
+              ) AS delegated_to
+       FROM proposals p JOIN members m ON m.dao_id = p.dao_id JOIN daos ON daos.id = p.dao_id
+       WHERE m.btc_address IN (${list(voters)}) AND p.status = 'active' AND p.voting_ends_at > datetime('now')
+         AND NOT EXISTS (SELECT 1 FROM votes v WHERE v.proposal_id = p.id AND v.voter = m.btc_address)
+       ORDER BY p.voting_ends_at, p.id`
+    )
+    .bind(...voters).all();
+
+  const votes = await db
+    .prepare(
+      `SELECT v.proposal_id, v.dao_id, daos.name AS dao_name, p.title, p.status AS proposal_status,
+              v.vote, v.weight, v.reason, v.created_at, v.updated_at
+       FROM votes v JOIN proposals p ON p.id = v.proposal_id JOIN daos ON daos.id = v.dao_id
+       WHERE v.voter IN (${list(voters)}) ORDER BY v.created_at DESC, v.id DESC LIMIT ?`
+    )
+    .bind(...voters, votesLimit).all();
+  const voteCount = await db
+    .prepare(`SELECT COUNT(*) AS total FROM votes WHERE voter IN (${list(voters)})`)
+    .bind(...voters).first<{ total: number }>();
+
+  const deposits = await db
+    .prepare(
+      `SELECT dep.dao_id, daos.name AS dao_name,
+              SUM(CASE WHEN dep.status = 'confirmed' THEN dep.amount_sats ELSE 0 END) AS confirmed_sats,
+              SUM(CASE WHEN dep.status = 'pending' THEN dep.amount_sats ELSE 0 END) AS pending_sats,
+              SUM(dep.status = 'confirmed') AS confirmed_count
+       FROM deposits dep JOIN daos ON daos.id = dep.dao_id
+       WHERE dep.funder IN (${list(aliases)}) GROUP BY dep.dao_id ORDER BY confirmed_sats DESC`
+    )
+    .bind(...aliases).all<any>();
+
+  return {
+    address,
+    memberships: rows,
+    pending_votes: inbox.results,
+    votes: { total: voteCount?.total || 0, recent: votes.results },
+    deposits: {
+      confirmed_sats: deposits.results.reduce((sum, d) => sum + d.confirmed_sats, 0),
+      pending_sats: deposits.results.reduce((sum, d) => sum + d.pending_sats, 0),
+      by_dao: deposits.results,
+    },
+  };
+}
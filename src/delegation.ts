@@ -0,0 +1,112 @@
+// Vote delegation — members lend their vote to another member
+//
+// A delegation covers one DAO (proposal_id NULL) or one proposal; a
+// proposal-scoped delegation wins over the DAO-wide one. A member who votes
+// directly always counts for themself. Everyone else follows their delegation
+// chain to the first member who voted; chains that loop or end without a vote
+// count for nobody.
+//
+// Tallies are recomputed from the votes, delegations and the DAO's voting
+// strategy rather than incremented, so votes_for / votes_against /
+// votes_abstain always hold effective weight and total_weight the weight
+// quorum is measured against. Delegators follow their delegate's vote,
+// abstentions included.
+
+import { memberWeights } from './voting';
+
+export interface Tally {
+  votes_for: number;
+  votes_against: number;
+  votes_abstain: number;
+  // Weight of every member whose vote counts or could still count
+  total_weight: number;
+  // Effective weight of each direct voter (their own + everyone whose vote flows to them)
+  weights: Record<string, number>;
+}
+
+async function delegationMap(db: D1Database, daoId: string | number, proposalId: number | null): Promise<Map<string, string>> {
+  const rows = await db
+    .prepare(
+      `SELECT delegator, delegate, proposal_id FROM delegations
+       WHERE dao_id = ? AND (proposal_id IS NULL OR proposal_id = ?) ORDER BY proposal_id IS NOT NULL`
+    )
+    .bind(daoId, proposalId).all<{ delegator: string; delegate: string }>();
+  // Proposal-scoped rows come last and overwrite DAO-wide ones
+  const map = new Map<string, string>();
+  for (const r of rows.results) map.set(r.delegator, r.delegate);
+  return map;
+}
+
+// Follow delegate links from `from` until `stop` says so; null on a loop or a dead end
+function follow(map: Map<string, string>, from: string, stop: (address: string) => boolean): string | null {
+  const seen = new Set<string>([from]);
+  let current = map.get(from);
+  while (current !== undefined) {
+    if (stop(current)) return current;
+    if (seen.has(current)) return null;
+    seen.add(current);
+    current = map.get(current);
+  }
+  return null;
+}
+
+export async function tallyProposal(db: D1Database, proposal: any): Promise<Tally> {
+  const dao = await db.prepare('SELECT * FROM daos WHERE id = ?').bind(proposal.dao_id).first();
+  const current = await memberWeights(db, dao);
+  const votes = await db
+    .prepare('SELECT voter, vote, weight FROM votes WHERE proposal_id = ?')
+    .bind(proposal.id).all<{ voter: string; vote: string; weight: number }>();
+  const map = await delegationMap(db, proposal.dao_id, proposal.id);
+
+  // Direct voters count at the weight they voted with
+  const direct = new Map(votes.results.map(v => [v.voter, v]));
+  const tally: Tally = { votes_for: 0, votes_against: 0, votes_abstain: 0, total_weight: 0, weights: {} };
+  for (const [address, weight] of current) {
+    const own = direct.get(address)?.weight ?? weight;
+    tally.total_weight += own;
+    const voter = direct.has(address) ? address : follow(map, address, a => direct.has(a));
+    if (!voter) continue;
+    tally.weights[voter] = (tally.weights[voter] || 0) + own;
+    const choice = direct.get(voter)!.vote;
+    if (choice === 'yes') tally.votes_for += own;
+    else if (choice === 'no') tally.votes_against += own;
+    else tally.votes_abstain += own;
+  }
+  return tally;
+}
+
+export function tallyStatement(db: D1Database, proposalId: number, tally: Tally): D1PreparedStatement {
+  return db
+    .prepare(
+      `UPDATE proposals SET votes_for = ?, votes_against = ?, votes_abstain = ?, total_weight = ?, updated_at = datetime('now')
+       WHERE id = ?`
+    )
+    .bind(tally.votes_for, tally.votes_against, tally.votes_abstain, tally.total_weight, proposalId);
+}
+
+export function withTally(proposal: any, tally: Tally): any {
+  const { weights, ...counts } = tally;
+  return { ...proposal, ...counts };
+}
+
+// Recount every active proposal of a DAO — after delegations or membership change.
+// Returns the proposals with their new tallies.
+export async function recountActive(db: D1Database, daoId: string | number, proposalId: number | null = null): Promise<any[]> {
+  const active = await db
+    .prepare('SELECT * FROM proposals WHERE dao_id = ? AND status = \'active\' AND (? IS NULL OR id = ?)')
+    .bind(daoId, proposalId, proposalId).all();
+  const recounted: any[] = [];
+  for (const proposal of active.results as any[]) {
+    const tally = await tallyProposal(db, proposal);
+    await tallyStatement(db, proposal.id, tally).run();
+    recounted.push(withTally(proposal, tally));
+  }
+  return recounted;
+}
+
+// Would delegator → delegate loop back to delegator in this scope?
+export async function createsCycle(db: D1Database, daoId: string | number, proposalId: number | null, delegator: string, delegate: string): Promise<boolean> {
+  const map = await delegationMap(db, daoId, proposalId);
+  map.set(delegator, delegate);
+  return follow(map, delegator, a => a === delegator) !== null;
+}
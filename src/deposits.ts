@@ -0,0 +1,133 @@
+// Deposit verification — pending → confirmed / rejected
+//
+// A deposit only reaches the ledger once the indexer shows a successful sBTC
+// transfer of exactly amount_sats to the DAO's treasury_address, sent by the
+// funder (or the stx_address linked to the funder's membership), with at least
+// MIN_CONFIRMATIONS blocks on top. Unknown transactions stay pending until
+// DEPOSIT_TIMEOUT_HOURS, then are rejected. A rejected deposit releases its
+// tx id, so submitting someone else's transaction wrongly can't burn it.
+
+import { activity } from './activity';
+import type { ChainIndexer } from './chain';
+import { recountActive } from './delegation';
+import { parseSqlTime } from './governance';
+import { depositEntry, syncTreasury } from './treasury';
+import { webhookEvent } from './webhooks';
+
+export const DEFAULT_MIN_CONFIRMATIONS = 3;
+const DEPOSIT_TIMEOUT_HOURS = 24;
+
+export type DepositStatus = 'pending' | 'confirmed' | 'rejected';
+
+export interface DepositCheck {
+  status: DepositStatus;
+  reason?: string;
+  confirmations: number;
+}
+
+// Addresses whose transfers count for the funder: the funder itself and, for a
+// member, the stx_address proven when they joined
+export async function depositSenders(db: D1Database, daoId: number | string, funder: string): Promise<string[]> {
+  const member = await db
+    .prepare('SELECT stx_address FROM members WHERE dao_id = ? AND btc_address = ?')
+    .bind(daoId, funder).first<{ stx_address: string | null }>();
+  return member?.stx_address ? [funder, member.stx_address] : [funder];
+}
+
+export async function checkDeposit(
+  indexer: ChainIndexer, deposit: any, dao: any, senders: string[], minConfirmations: number,
+): Promise<DepositCheck> {
+  const tx = await indexer.getTransaction(deposit.tx_id);
+  const ageHours = (Date.now() - parseSqlTime(deposit.created_at)) / 3_600_000;
+
+  if (!tx) {
+    return ageHours > DEPOSIT_TIMEOUT_HOURS
+      ? { status: 'rejected', reason: 'transaction not found', confirmations: 0 }
+      : { status: 'pending', reason: 'transaction not found yet', confirmations: 0 };
+  }
+  if (tx.status === 'failed') return { status: 'rejected', reason: 'transaction failed on chain', confirmations: 0 };
+
+  const toTreasury = tx.transfers.filter(t => t.recipient === dao.treasury_address);
+  if (!toTreasury.length) return { status: 'rejected', reason: `no sBTC transfer to ${dao.treasury_address}`, confirmations: tx.confirmations };
+  const transfer = toTreasury.find(t => senders.includes(t.sender));
+  if (!transfer) {
+    return { status: 'rejected', reason: `transfer was sent by ${toTreasury[0].sender}, not by the funder`, confirmations: tx.confirmations };
+  }
+  if (transfer.amount_sats !== deposit.amount_sats) {
+    return { status: 'rejected', reason: `transfer is ${transfer.amount_sats} sats, deposit claims ${deposit.amount_sats}`, confirmations: tx.confirmations };
+  }
+
+  if (tx.status === 'pending' || tx.confirmations < minConfirmations) {
+    return { status: 'pending', reason: `${tx.confirmations}/${minConfirmations} confirmations`, confirmations: tx.confirmations };
+  }
+  return { status: 'confirmed', confirmations: tx.confirmations };
+}
+
+// Run a check and persist the result. The fund request and the cron (or two cron
+// runs) can check the same deposit at once, so the status change is claimed on
+// its own, guarded on the deposit still being pending, and only the caller whose
+// claim changed the row books the deposit or logs the rejection.
+export async function settleDeposit(db: D1Database, indexer: ChainIndexer, deposit: any, dao: any, minConfirmations: number): Promise<DepositCheck> {
+  let check: DepositCheck;
+  try {
+    check = await checkDeposit(indexer, deposit, dao, await depositSenders(db, dao.id, deposit.funder), minConfirmations);
+  } catch (e: any) {
+    // Indexer outage — leave it pending for the next pass
+    check = { status: 'pending', reason: e.message, confirmations: deposit.confirmations || 0 };
+  }
+
+  const update = db
+    .prepare(
+      `UPDATE deposits SET status = ?, reason = ?, confirmations = ?, attempts = attempts + 1, checked_at = datetime('now'),
+         confirmed_at = CASE WHEN ? = 'confirmed' THEN datetime('now') ELSE confirmed_at END
+       WHERE id = ? AND status = 'pending'`
+    )
+    .bind(check.status, check.reason || null, check.confirmations, check.status, deposit.id);
+  if (!(await update.run()).meta.changes) {
+    const current = await db
+      .prepare('SELECT status, reason, confirmations FROM deposits WHERE id = ?')
+      .bind(deposit.id).first<{ status: DepositStatus; reason: string | null; confirmations: number }>();
+    return { status: current!.status, ...(current!.reason ? { reason: current!.reason } : {}), confirmations: current!.confirmations };
+  }
+
+  if (check.status === 'confirmed') {
+    await db.batch([
+      depositEntry(db, dao.id, deposit.funder, deposit.amount_sats, deposit.tx_id),
+      syncTreasury(db, dao.id),
+      activity(db, dao.id, deposit.funder, 'funded', `${deposit.amount_sats} sats deposited (tx: ${deposit.tx_id})`,
+        { deposit_id: deposit.id, amount_sats: deposit.amount_sats, tx_id: deposit.tx_id }),
+      webhookEvent(db, dao.id, 'funded', {
+        deposit_id: deposit.id, funder: deposit.funder, amount_sats: deposit.amount_sats, tx_id: deposit.tx_id,
+        confirmations: check.confirmations,
+      }),
+    ]);
+    // Contribution-weighted DAOs: the funder now weighs more on open proposals
+    await recountActive(db, dao.id);
+  } else if (check.status === 'rejected') {
+    await db.batch([
+      activity(db, dao.id, deposit.funder, 'deposit_rejected', `${deposit.amount_sats} sats (tx: ${deposit.tx_id}) rejected: ${check.reason}`,
+        { deposit_id: deposit.id, amount_sats: deposit.amount_sats, tx_id: deposit.tx_id, reason: check.reason }),
+    ]);
+  }
+  return check;
+}
+
+// Cron: re-check pending deposits. Fresh ones are left to the fund request that created them.
+export async function recheckPendingDeposits(db: D1Database, indexer: ChainIndexer, minConfirmations: number, limit = 50): Promise<number> {
+  const pending = await db
+    .prepare(
+      `SELECT d.*, daos.treasury_address FROM deposits d JOIN daos ON daos.id = d.dao_id
+       WHERE d.status = 'pending' AND d.created_at < datetime('now', '-1 minute')
+       ORDER BY d.checked_at IS NOT NULL, d.checked_at LIMIT ?`
+    )
+    .bind(limit).all();
+
+  for (const deposit of pending.results as any[]) {
+    try {
+      await settleDeposit(db, indexer, deposit, { id: deposit.dao_id, treasury_address: deposit.treasury_address }, minConfirmations);
+    } catch (e: any) {
+      console.error(`cron: checking deposit #${deposit.id} failed: ${e?.message || e}`);
+    }
+  }
+  return pending.results.length;
+}
@@ -0,0 +1,391 @@
+// Proposal execution — a passed proposal applies its action_type atomically
+//
+//   general     no side effects
+//   spending    pays amount_sats from the treasury to recipient (a refund of
+//               their contribution if action_payload.refund is set)
+//   membership  adds or removes recipient, or changes their role
+//               (action_payload.op = 'add' | 'remove' | 'role'); an add may
+//               decide a join request (action_payload.join_request_id)
+//   settings    applies action_payload (a validated set of DAO setting changes)
+//   bounty      posts a bounty titled after the proposal, reserving amount_sats in escrow
+//   stream      starts paying recipient amount_sats per action_payload.cadence
+//   stream_cancel  ends the stream in action_payload.stream_id
+//   dissolve    marks the DAO dissolved, cancels its other active proposals and
+//               streams, and releases unsettled bounties back to the treasury
+//   multi       applies action_payload.actions, a list of the actions above, in
+//               order and all-or-nothing; amount_sats is their total outflow
+//
+// Anything that can never execute is rejected at creation; anything that fails
+// at execution time (e.g. treasury too small) leaves the proposal in
+// 'execution_failed' with the reason in execution_error.
+
+import { activity, ActivityMetadata } from './activity';
+import { cancelUnsettledBounties, postBounty } from './bounties';
+import { recountActive } from './delegation';
+import { claimOutcome, parseSqlTime, settledStatus, toSqlTime } from './governance';
+import { decideJoinRequest, pendingJoinRequest } from './invites';
+import { addMember, adminCount, isRole, MEMBER_ROLES, removeMember } from './members';
+import { applySettings, describeSettings, validateSettings } from './settings';
+import { cancelLiveStreams, cancelStream, LIVE, startStream, STREAM_CADENCES } from './streams';
+import { contributions, ledgerBalance, payoutEntry, syncTreasury } from './treasury';
+import { webhookEvent } from './webhooks';
+
+export const ACTION_TYPES = [
+  'general', 'spending', 'membership', 'settings', 'bounty', 'stream', 'stream_cancel', 'dissolve', 'multi',
+] as const;
+
+// What a multi-action proposal can bundle
+export const MULTI_ACTION_TYPES = ['spending', 'membership', 'settings', 'bounty', 'stream', 'stream_cancel'] as const;
+export const MAX_ACTIONS = 10;
+
+export interface ProposalAction {
+  action_type: string;
+  amount_sats: number;
+  recipient: string | null;
+  payload: Record<string, unknown> | null;
+}
+
+// Normalize and validate the action fields of a new proposal
+export async function validateAction(db: D1Database, dao: any, body: any): Promise<ProposalAction | string> {
+  if (body.actions !== undefined) return validateActions(db, dao, body.actions);
+  const actionType = body.action_type || 'general';
+  if (!(ACTION_TYPES as readonly string[]).includes(actionType)) {
+    return `action_type must be one of: ${ACTION_TYPES.join(', ')}`;
+  }
+  if (actionType === 'multi') return 'multi proposals list their steps in actions';
+
+  if (actionType === 'spending') {
+    const amount = body.amount_sats;
+    if (!Number.isInteger(amount) || amount < 1) return 'spending proposals require a positive integer amount_sats';
+    if (!body.recipient) return 'spending proposals require a recipient';
+    if (dao.spend_limit_sats > 0 && amount > dao.spend_limit_sats) {
+      return `amount_sats exceeds the DAO spend limit of ${dao.spend_limit_sats} sats`;
+    }
+    if (body.action_payload?.refund) {
+      const contributed = (await contributions(db, dao.id)).find(c => c.address === body.recipient);
+      if (!contributed || contributed.net_sats < amount) return 'refund exceeds the recipient\'s net contribution';
+      return { action_type: actionType, amount_sats: amount, recipient: body.recipient, payload: { refund: true } };
+    }
+    return { action_type: actionType, amount_sats: amount, recipient: body.recipient, payload: null };
+  }
+
+  if (actionType === 'membership') {
+    const op = body.action_payload?.op;
+    if (op !== 'add' && op !== 'remove' && op !== 'role') return 'membership proposals require action_payload.op of "add", "remove" or "role"';
+
+    // Deciding a join request: the recipient and profile come from the request
+    const requestId = op === 'add' ? body.action_payload.join_request_id : undefined;
+    const request = requestId !== undefined ? await pendingJoinRequest(db, dao.id, requestId) : null;
+    if (requestId !== undefined && !request) return 'join_request_id is not a pending join request for this DAO';
+    if (request && body.recipient && body.recipient !== request.btc_address) return 'recipient does not match the join request';
+
+    const recipient = body.recipient || request?.btc_address;
+    if (!recipient) return 'membership proposals require a recipient address';
+
+    const existing = await db
+      .prepare('SELECT role FROM members WHERE dao_id = ? AND btc_address = ?')
+      .bind(dao.id, recipient).first<{ role: string }>();
+
+    if (op === 'add') {
+      const role = body.action_payload.role || 'member';
+      if (!isRole(role)) return `role must be one of: ${MEMBER_ROLES.join(', ')}`;
+      if (existing) return 'recipient is already a member';
+      // A linked stx_address signs and deposits for the member, so it has to be proven (see join requests)
+      if (body.action_payload.stx_address && body.action_payload.stx_address !== request?.stx_address) {
+        return 'stx_address can only come from a join request, where the member proves the link';
+      }
+      return {
+        action_type: actionType, amount_sats: 0, recipient,
+        payload: {
+          op, role,
+          display_name: body.action_payload.display_name || request?.display_name || null,
+          stx_address: request?.stx_address || null,
+          ...(request ? { join_request_id: request.id } : {}),
+        },
+      };
+    }
+
+    if (!existing) return 'recipient is not a member';
+    if (op === 'role') {
+      const role = body.action_payload.role;
+      if (!isRole(role)) return `role must be one of: ${MEMBER_ROLES.join(', ')}`;
+      if (existing.role === role) return `recipient is already ${role}`;
+      if (existing.role === 'admin' && (await adminCount(db, dao.id)) <= 1) return 'cannot demote the last admin';
+      return { action_type: actionType, amount_sats: 0, recipient: body.recipient, payload: { op, role } };
+    }
+    if (existing.role === 'admin' && (await adminCount(db, dao.id)) <= 1) return 'cannot remove the last admin';
+    return { action_type: actionType, amount_sats: 0, recipient: body.recipient, payload: { op } };
+  }
+
+  if (actionType === 'settings') {
+    const changes = validateSettings(dao, body.action_payload);
+    if (typeof changes === 'string') return changes;
+    return { action_type: actionType, amount_sats: 0, recipient: null, payload: changes };
+  }
+
+  if (actionType === 'bounty') {
+    const amount = body.amount_sats;
+    if (!Number.isInteger(amount) || amount < 1) return 'bounty proposals require a positive integer amount_sats';
+    if (dao.spend_limit_sats > 0 && amount > dao.spend_limit_sats) {
+      return `amount_sats exceeds the DAO spend limit of ${dao.spend_limit_sats} sats`;
+    }
+    return { action_type: actionType, amount_sats: amount, recipient: null, payload: null };
+  }
+
+  if (actionType === 'stream') {
+    const amount = body.amount_sats;
+    const p = body.action_payload || {};
+    if (!Number.isInteger(amount) || amount < 1) return 'stream proposals require a positive integer amount_sats per installment';
+    if (!body.recipient) return 'stream proposals require a recipient';
+    if (dao.spend_limit_sats > 0 && amount > dao.spend_limit_sats) {
+      return `amount_sats exceeds the DAO spend limit of ${dao.spend_limit_sats} sats`;
+    }
+    if (!STREAM_CADENCES[p.cadence]) return `action_payload.cadence must be one of: ${Object.keys(STREAM_CADENCES).join(', ')}`;
+    if (!Number.isInteger(p.cap_sats) || p.cap_sats < amount) return 'action_payload.cap_sats must be an integer of at least amount_sats';
+
+    const start = p.start_at === undefined ? null : Date.parse(p.start_at);
+    const end = p.end_at === undefined ? null : Date.parse(p.end_at);
+    if (Number.isNaN(start) || Number.isNaN(end)) return 'action_payload.start_at and end_at must be ISO 8601 dates';
+    if (end !== null && end <= Math.max(start ?? 0, Date.now())) return 'action_payload.end_at must be after the start and in the future';
+    return {
+      action_type: actionType, amount_sats: amount, recipient: body.recipient,
+      payload: {
+        cadence: p.cadence, cap_sats: p.cap_sats,
+        start_at: start === null ? null : toSqlTime(start), end_at: end === null ? null : toSqlTime(end),
+      },
+    };
+  }
+
+  if (actionType === 'stream_cancel') {
+    const stream = await db
+      .prepare('SELECT id, status FROM streams WHERE id = ? AND dao_id = ?')
+      .bind(body.action_payload?.stream_id ?? null, dao.id).first<{ id: number; status: any }>();
+    if (!stream) return 'action_payload.stream_id must be a stream of this DAO';
+    if (!LIVE.includes(stream.status)) return `stream is already ${stream.status}`;
+    return { action_type: actionType, amount_sats: 0, recipient: null, payload: { stream_id: stream.id } };
+  }
+
+  if (actionType === 'dissolve') {
+    const pending = await db
+      .prepare('SELECT id FROM proposals WHERE dao_id = ? AND action_type = ? AND status = ?')
+      .bind(dao.id, 'dissolve', 'active').first();
+    if (pending) return 'a dissolve proposal is already open';
+    return { action_type: actionType, amount_sats: 0, recipient: null, payload: null };
+  }
+
+  return { action_type: 'general', amount_sats: 0, recipient: null, payload: null };
+}
+
+async function validateActions(db: D1Database, dao: any, list: unknown): Promise<ProposalAction | string> {
+  if (!Array.isArray(list) || list.length < 1 || list.length > MAX_ACTIONS) return `actions must be a list of 1 to ${MAX_ACTIONS} actions`;
+  const actions: ProposalAction[] = [];
+  for (const [i, item] of list.entries()) {
+    if (!(MULTI_ACTION_TYPES as readonly string[]).includes(item?.action_type)) {
+      return `actions[${i}]: action_type must be one of: ${MULTI_ACTION_TYPES.join(', ')}`;
+    }
+    const action = await validateAction(db, dao, item);
+    if (typeof action === 'string') return `actions[${i}]: ${action}`;
+    actions.push(action);
+  }
+
+  const conflict = actionConflict(actions);
+  if (conflict) return conflict;
+  if (await removesEveryAdmin(db, dao.id, actions)) return 'the actions would leave the DAO without an admin';
+  const outflow = actions
+    .filter(a => a.action_type === 'spending' || a.action_type === 'bounty')
+    .reduce((sum, a) => sum + a.amount_sats, 0);
+  // The limit caps what one proposal can move, not each of its steps
+  if (dao.spend_limit_sats > 0 && outflow > dao.spend_limit_sats) {
+    return `the actions move ${outflow} sats, over the DAO spend limit of ${dao.spend_limit_sats} sats`;
+  }
+  return { action_type: 'multi', amount_sats: outflow, recipient: null, payload: { actions } };
+}
+
+// Steps that can't share one batch
+function actionConflict(actions: ProposalAction[]): string | null {
+  const count = (type: string) => actions.filter(a => a.action_type === type).length;
+  const members = actions.filter(a => a.action_type === 'membership').map(a => a.recipient);
+  if (new Set(members).size < members.length) return 'each member can appear in only one membership action';
+  const streams = actions.filter(a => a.action_type === 'stream_cancel').map(a => a.payload!.stream_id);
+  if (new Set(streams).size < streams.length) return 'each stream can be cancelled only once';
+  if (count('settings') > 1) return 'only one settings action per proposal';
+  // A bounty is found again by its proposal id when its reward is reserved
+  if (count('bounty') > 1) return 'only one bounty action per proposal';
+  return null;
+}
+
+async function removesEveryAdmin(db: D1Database, daoId: string | number, actions: ProposalAction[]): Promise<boolean> {
+  const admins = await db
+    .prepare('SELECT btc_address FROM members WHERE dao_id = ? AND role = ?')
+    .bind(daoId, 'admin').all<{ btc_address: string }>();
+  const membership = actions.filter(a => a.action_type === 'membership');
+  const gained = membership.some(a => a.payload!.role === 'admin' && a.payload!.op !== 'remove');
+  const lost = membership.filter(a => a.payload!.op === 'remove' || (a.payload!.op === 'role' && a.payload!.role !== 'admin'));
+  return !gained && admins.results.every(m => lost.some(a => a.recipient === m.btc_address));
+}
+
+// The actions a proposal applies — one for ordinary proposals, the list for multi
+export function proposalActions(proposal: any): ProposalAction[] {
+  const payload = proposal.action_payload ? JSON.parse(proposal.action_payload) : null;
+  if (proposal.action_type === 'multi') return payload.actions;
+  return [{ action_type: proposal.action_type, amount_sats: proposal.amount_sats, recipient: proposal.recipient, payload }];
+}
+
+// Claim the proposal as passed and apply its action in one batch, or record why it couldn't run
+export async function executeProposal(
+  db: D1Database, dao: any, proposal: any, summary: string, metadata: ActivityMetadata = {},
+): Promise<{ status: string; error?: string }> {
+  const passed = activity(db, dao.id, 'system', 'passed', summary, { proposal_id: proposal.id, ...metadata });
+  const plan = await planExecution(db, dao, proposal);
+  const event = (status: string, error?: string) => webhookEvent(db, dao.id, 'passed', {
+    proposal_id: proposal.id, title: proposal.title, action_type: proposal.action_type,
+    votes_for: proposal.votes_for, votes_against: proposal.votes_against, votes_abstain: proposal.votes_abstain || 0,
+    status, execution_error: error ?? null,
+  });
+
+  const failed = (error: string) => [
+    passed,
+    activity(db, dao.id, 'system', 'execution_failed', `"${proposal.title}" could not execute: ${error}`,
+      { proposal_id: proposal.id, error }),
+    event('execution_failed', error),
+  ];
+  if (typeof plan === 'string') {
+    if (!(await claimOutcome(db, proposal.id, 'execution_failed', plan))) return settledStatus(db, proposal.id);
+    await db.batch(failed(plan));
+    return { status: 'execution_failed', error: plan };
+  }
+
+  // The claim is what stops a racing vote or cron run from applying the plan a second time
+  if (!(await claimOutcome(db, proposal.id, 'passed'))) return settledStatus(db, proposal.id);
+  try {
+    await db.batch([passed, ...plan, event('passed')]);
+  } catch (e: any) {
+    // The batch is one transaction, so only the claim was applied
+    const error = `batch rejected: ${e.message || e}`;
+    await db.batch([
+      db.prepare(
+        `UPDATE proposals SET status = ?, execution_error = ?, executed_at = NULL, updated_at = datetime('now')
+         WHERE id = ? AND status = ?`
+      ).bind('execution_failed', error, proposal.id, 'passed'),
+      ...failed(error),
+    ]);
+    return { status: 'execution_failed', error };
+  }
+  // Membership changed the eligible weight (and a removal took votes and delegations with it)
+  if (proposalActions(proposal).some(a => a.action_type === 'membership')) {
+    await recountActive(db, dao.id);
+  }
+  return { status: 'passed' };
+}
+
+async function planExecution(db: D1Database, dao: any, proposal: any): Promise<D1PreparedStatement[] | string> {
+  const payload = proposal.action_payload ? JSON.parse(proposal.action_payload) : {};
+
+  switch (proposal.action_type) {
+    case 'spending': {
+      const amount = proposal.amount_sats;
+      if (dao.spend_limit_sats > 0 && amount > dao.spend_limit_sats) {
+        return `amount ${amount} exceeds spend limit ${dao.spend_limit_sats}`;
+      }
+      const balance = await ledgerBalance(db, dao.id);
+      if (amount > balance) return `treasury has ${balance} sats, needs ${amount}`;
+      const memo = `${payload.refund ? 'Refund' : 'Payout'} for proposal "${proposal.title}"`;
+      return [
+        payoutEntry(db, dao.id, proposal.recipient, amount, proposal.id, memo, !!payload.refund),
+        syncTreasury(db, dao.id),
+        activity(db, dao.id, 'system', 'executed', `${amount} sats ${payload.refund ? 'refunded' : 'paid'} to ${proposal.recipient}`,
+          { proposal_id: proposal.id, action_type: 'spending', recipient: proposal.recipient, amount_sats: amount, refund: !!payload.refund }),
+      ];
+    }
+
+    case 'membership': {
+      const existing = await db
+        .prepare('SELECT role FROM members WHERE dao_id = ? AND btc_address = ?')
+        .bind(dao.id, proposal.recipient).first<{ role: string }>();
+
+      if (payload.op === 'add') {
+        if (existing) return `${proposal.recipient} is already a member`;
+        const request = payload.join_request_id ? await pendingJoinRequest(db, dao.id, payload.join_request_id) : null;
+        return [
+          ...addMember(db, dao.id, {
+            btc_address: proposal.recipient, stx_address: payload.stx_address, display_name: payload.display_name, role: payload.role || 'member',
+          }, 'system', 'executed', `${payload.display_name || proposal.recipient} added as ${payload.role || 'member'}`,
+          { proposal_id: proposal.id, action_type: 'membership' }),
+          ...(request ? decideJoinRequest(db, request, 'approved', 'system', proposal.id) : []),
+        ];
+      }
+
+      if (!existing) return `${proposal.recipient} is not a member`;
+      if (payload.op === 'role') {
+        if (existing.role === payload.role) return `${proposal.recipient} is already ${payload.role}`;
+        if (existing.role === 'admin' && (await adminCount(db, dao.id)) <= 1) return 'cannot demote the last admin';
+        return [
+          db.prepare('UPDATE members SET role = ? WHERE dao_id = ? AND btc_address = ?').bind(payload.role, dao.id, proposal.recipient),
+          activity(db, dao.id, 'system', 'executed', `${proposal.recipient} is now ${payload.role}`,
+            { proposal_id: proposal.id, action_type: 'membership', address: proposal.recipient, from_role: existing.role, role: payload.role }),
+        ];
+      }
+      if (existing.role === 'admin' && (await adminCount(db, dao.id)) <= 1) return 'cannot remove the last admin';
+      return removeMember(db, dao.id, proposal.recipient, 'system', 'executed', `${proposal.recipient} removed`,
+        { proposal_id: proposal.id, action_type: 'membership' });
+    }
+
+    case 'settings':
+      return [
+        applySettings(db, dao.id, payload),
+        activity(db, dao.id, 'system', 'executed', `Settings changed: ${describeSettings(dao, payload)}`,
+          { proposal_id: proposal.id, action_type: 'settings', changes: payload }),
+      ];
+
+    case 'bounty': {
+      const balance = await ledgerBalance(db, dao.id);
+      if (proposal.amount_sats > balance) return `treasury has ${balance} sats, needs ${proposal.amount_sats} to reserve`;
+      return postBounty(db, dao, proposal);
+    }
+
+    case 'stream':
+      if (payload.end_at && parseSqlTime(payload.end_at) <= Date.now()) return 'the stream\'s end_at has already passed';
+      return startStream(db, dao, proposal, payload);
+
+    case 'stream_cancel': {
+      const stream = await db.prepare('SELECT * FROM streams WHERE id = ?').bind(payload.stream_id).first() as any;
+      if (!stream || !LIVE.includes(stream.status)) return `stream #${payload.stream_id} is no longer running`;
+      return cancelStream(db, stream, 'system', `proposal "${proposal.title}" passed`);
+    }
+
+    case 'dissolve':
+      return [
+        ...(await cancelUnsettledBounties(db, dao.id, 'DAO dissolved')),
+        ...(await cancelLiveStreams(db, dao.id, 'DAO dissolved')),
+        db.prepare('UPDATE daos SET status = ?, dissolved_at = datetime(\'now\'), updated_at = datetime(\'now\') WHERE id = ?')
+          .bind('dissolved', dao.id),
+        db.prepare('UPDATE proposals SET status = ?, updated_at = datetime(\'now\') WHERE dao_id = ? AND status = ?')
+          .bind('cancelled', dao.id, 'active'),
+        activity(db, dao.id, 'system', 'dissolved', `DAO dissolved by proposal "${proposal.title}" — open proposals cancelled`,
+          { proposal_id: proposal.id }),
+      ];
+
+    case 'multi': {
+      // Checked together up front; each step below only sees the current balance
+      if (dao.spend_limit_sats > 0 && proposal.amount_sats > dao.spend_limit_sats) {
+        return `the actions move ${proposal.amount_sats} sats, over the spend limit of ${dao.spend_limit_sats}`;
+      }
+      const balance = await ledgerBalance(db, dao.id);
+      if (proposal.amount_sats > balance) return `treasury has ${balance} sats, the actions need ${proposal.amount_sats}`;
+      if (await removesEveryAdmin(db, dao.id, payload.actions)) return 'the actions would leave the DAO without an admin';
+      const statements: D1PreparedStatement[] = [];
+      for (const [i, action] of (payload.actions as ProposalAction[]).entries()) {
+        const step = await planExecution(db, dao, {
+          ...proposal, action_type: action.action_type, amount_sats: action.amount_sats, recipient: action.recipient,
+          action_payload: action.payload ? JSON.stringify(action.payload) : null,
+        });
+        if (typeof step === 'string') return `action ${i + 1} (${action.action_type}): ${step}`;
+        statements.push(...step);
+      }
+      return statements;
+    }
+
+    default:
+      return [];
+  }
+}
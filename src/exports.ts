@@ -0,0 +1,194 @@
+// DAO export bundles — a signed snapshot of a DAO that another deployment can import
+//
+// A bundle carries the DAO row, members, proposals, votes, ledger entries and
+// the sealed activity chain. The deployment signs the SHA-256 of the bundle's
+// canonical JSON (everything but `signature`) with its secp256k1 key
+// (EXPORT_SIGNING_KEY), so anyone holding the public key can check it.
+//
+// Import only accepts bundles signed by a key in TRUSTED_EXPORT_KEYS — the
+// ledger in a bundle is taken as is, so the signer vouches for its deposits.
+// After checking the signature and the chain it writes everything in one batch
+// under fresh ids, and claims each deposit's tx id so it can't be funded again.
+// Activity rows keep their seq and hashes, so the imported chain verifies as it
+// did at the source and new activity links on from its head; ids inside their
+// metadata still refer to the source deployment.
+
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { hex } from '@scure/base';
+import { activity } from './activity';
+import { staleRollups } from './analytics';
+import { canonicalJson, ChainLink, daoChain, sha256Hex, toLink, verifyChain } from './audit';
+import { normalizeTxId } from './chain';
+import { syncTreasury } from './treasury';
+
+export const BUNDLE_FORMAT = 'dao-factory-export';
+export const BUNDLE_VERSION = 1;
+export const SIGNATURE_ALGORITHM = 'secp256k1-sha256';
+
+// Columns carried per table; ids are reassigned on import
+const DAO_COLUMNS = [
+  'name', 'description', 'creator', 'creator_name', 'approval_threshold', 'spend_limit_sats', 'member_count',
+  'proposal_count', 'status', 'created_at', 'updated_at', 'voting_period_hours', 'quorum_pct', 'treasury_address',
+  'dissolved_at', 'voting_strategy', 'contract_principal',
+];
+const MEMBER_COLUMNS = ['btc_address', 'stx_address', 'display_name', 'role', 'joined_at'];
+const PROPOSAL_COLUMNS = [
+  'proposer', 'title', 'description', 'action_type', 'amount_sats', 'recipient', 'action_payload', 'status',
+  'votes_for', 'votes_against', 'votes_abstain', 'total_weight', 'voting_ends_at', 'executed_at', 'execution_error',
+  'created_at', 'updated_at',
+];
+const VOTE_COLUMNS = ['voter', 'vote', 'weight', 'reason', 'created_at', 'updated_at'];
+const LEDGER_COLUMNS = [
+  'entry_type', 'debit_account', 'credit_account', 'amount_sats', 'counterparty', 'tx_id', 'memo', 'created_at',
+];
+
+export interface ExportBundle {
+  format: string;
+  version: number;
+  exported_at: string;
+  source: { host: string; dao_id: number };
+  dao: Record<string, unknown>;
+  members: Record<string, unknown>[];
+  proposals: Record<string, unknown>[];
+  votes: Record<string, unknown>[];
+  ledger: Record<string, unknown>[];
+  activity: ChainLink[];
+  chain: { length: number; head: string | null };
+  signature?: { algorithm: string; public_key: string; digest: string; value: string };
+}
+
+export function exportPublicKey(signingKey: string): string {
+  return hex.encode(secp256k1.getPublicKey(hex.decode(signingKey)));
+}
+
+function bundleDigest(bundle: ExportBundle): string {
+  const { signature: _, ...unsigned } = bundle;
+  return sha256Hex(canonicalJson(unsigned));
+}
+
+function pick(row: any, columns: string[]): Record<string, unknown> {
+  return Object.fromEntries(columns.map(c => [c, row[c] ?? null]));
+}
+
+export async function exportDao(db: D1Database, dao: any, host: string, signingKey: string): Promise<ExportBundle> {
+  const all = async (sql: string) => (await db.prepare(sql).bind(dao.id).all<any>()).results;
+  const members = await all('SELECT * FROM members WHERE dao_id = ? ORDER BY id');
+  const proposals = await all('SELECT * FROM proposals WHERE dao_id = ? ORDER BY id');
+  const votes = await all('SELECT * FROM votes WHERE dao_id = ? ORDER BY id');
+  const ledger = await all('SELECT * FROM treasury_entries WHERE dao_id = ? ORDER BY id');
+  const chain = (await daoChain(db, dao.id)).map(toLink);
+
+  const bundle: ExportBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    source: { host, dao_id: dao.id },
+    dao: pick(dao, DAO_COLUMNS),
+    members: members.map(m => pick(m, MEMBER_COLUMNS)),
+    proposals: proposals.map(p => ({ id: p.id, ...pick(p, PROPOSAL_COLUMNS) })),
+    votes: votes.map(v => ({ proposal_id: v.proposal_id, ...pick(v, VOTE_COLUMNS) })),
+    ledger: ledger.map(e => ({ proposal_id: e.proposal_id, ...pick(e, LEDGER_COLUMNS) })),
+    activity: chain,
+    chain: { length: chain.length, head: chain.length ? chain[chain.length - 1].hash! : null },
+  };
+
+  const digest = bundleDigest(bundle);
+  const signature = secp256k1.sign(hex.decode(digest), hex.decode(signingKey), { prehash: false });
+  bundle.signature = {
+    algorithm: SIGNATURE_ALGORITHM, public_key: exportPublicKey(signingKey), digest, value: hex.encode(signature),
+  };
+  return bundle;
+}
+
+// Returns an error string when the bundle can't be trusted
+export function checkBundle(bundle: any, trustedKeys: string[]): string | null {
+  if (!bundle || bundle.format !== BUNDLE_FORMAT || bundle.version !== BUNDLE_VERSION) {
+    return `bundle must be a ${BUNDLE_FORMAT} version ${BUNDLE_VERSION} export`;
+  }
+  for (const key of ['members', 'proposals', 'votes', 'ledger', 'activity']) {
+    if (!Array.isArray(bundle[key])) return `bundle.${key} must be a list`;
+  }
+  if (!bundle.dao || typeof bundle.dao.name !== 'string') return 'bundle.dao is missing';
+
+  const sig = bundle.signature;
+  if (!sig || sig.algorithm !== SIGNATURE_ALGORITHM) return `bundle must be signed with ${SIGNATURE_ALGORITHM}`;
+  if (!trustedKeys.includes(sig.public_key)) return 'bundle is signed by a key this deployment does not trust';
+  const digest = bundleDigest(bundle);
+  if (digest !== sig.digest) return 'bundle contents do not match the signed digest';
+  try {
+    if (!secp256k1.verify(hex.decode(sig.value), hex.decode(digest), hex.decode(sig.public_key), { prehash: false })) {
+      return 'bundle signature is invalid';
+    }
+  } catch {
+    return 'bundle signature is malformed';
+  }
+
+  const report = verifyChain(bundle.activity);
+  if (!report.valid) return `activity chain is broken at seq ${report.broken[0].seq}: ${report.broken[0].reason}`;
+  if (report.length !== bundle.chain?.length || (report.head?.hash ?? null) !== bundle.chain?.head) {
+    return 'activity chain does not end at the recorded head';
+  }
+
+  const proposalIds = new Set(bundle.proposals.map((p: any) => p.id));
+  const orphan = [...bundle.votes, ...bundle.ledger].find((r: any) => r.proposal_id != null && !proposalIds.has(r.proposal_id));
+  if (orphan) return `proposal #${orphan.proposal_id} is referenced but not in the bundle`;
+  return null;
+}
+
+// Ledger deposits with their tx id normalized as POST /fund stores it
+function ledgerDeposits(bundle: ExportBundle): { entry: any; tx_id: string }[] {
+  return bundle.ledger.flatMap((e: any) => {
+    const txId = e.entry_type === 'deposit' && e.tx_id ? normalizeTxId(String(e.tx_id)) : null;
+    return txId ? [{ entry: e, tx_id: txId }] : [];
+  });
+}
+
+export function bundleDepositTxIds(bundle: ExportBundle): string[] {
+  return ledgerDeposits(bundle).map(d => d.tx_id);
+}
+
+function insert(db: D1Database, table: string, row: Record<string, unknown>): D1PreparedStatement {
+  const columns = Object.keys(row);
+  return db
+    .prepare(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+    .bind(...columns.map(c => row[c] ?? null));
+}
+
+// Write a checked bundle as a new DAO. Ids are claimed up front and the batch
+// is one transaction, so a concurrent insert makes the whole import fail cleanly.
+export async function importDao(
+  db: D1Database, bundle: ExportBundle, name: string, actor: string,
+): Promise<{ dao_id: number; proposal_ids: Record<number, number> }> {
+  const next = await db
+    .prepare('SELECT (SELECT COALESCE(MAX(id), 0) FROM daos) AS dao, (SELECT COALESCE(MAX(id), 0) FROM proposals) AS proposal')
+    .first<{ dao: number; proposal: number }>();
+  const daoId = next!.dao + 1;
+  const proposalIds: Record<number, number> = {};
+  bundle.proposals.forEach((p: any, i) => { proposalIds[p.id] = next!.proposal + 1 + i; });
+  const proposalId = (id: any) => (id == null ? null : proposalIds[id]);
+
+  const origin = {
+    host: bundle.source?.host, dao_id: bundle.source?.dao_id, exported_at: bundle.exported_at,
+    chain_head: bundle.chain.head, public_key: bundle.signature!.public_key,
+  };
+  await db.batch([
+    insert(db, 'daos', { id: daoId, ...pick(bundle.dao, DAO_COLUMNS), name, imported_from: JSON.stringify(origin) }),
+    ...bundle.members.map(m => insert(db, 'members', { dao_id: daoId, ...pick(m, MEMBER_COLUMNS) })),
+    ...bundle.proposals.map((p: any) => insert(db, 'proposals', { id: proposalIds[p.id], dao_id: daoId, ...pick(p, PROPOSAL_COLUMNS) })),
+    ...bundle.votes.map((v: any) => insert(db, 'votes', { dao_id: daoId, proposal_id: proposalId(v.proposal_id), ...pick(v, VOTE_COLUMNS) })),
+    ...bundle.ledger.map((e: any) => insert(db, 'treasury_entries', { dao_id: daoId, proposal_id: proposalId(e.proposal_id), ...pick(e, LEDGER_COLUMNS) })),
+    ...ledgerDeposits(bundle).map(({ entry, tx_id }) => insert(db, 'deposits', {
+      dao_id: daoId, funder: entry.counterparty, amount_sats: entry.amount_sats, tx_id, status: 'confirmed',
+      reason: `Imported from ${origin.host}`, confirmed_at: entry.created_at, created_at: entry.created_at,
+    })),
+    ...bundle.activity.map(a => insert(db, 'activity', {
+      dao_id: daoId, actor: a.actor, action: a.action, details: a.details, created_at: a.created_at,
+      metadata: a.metadata == null ? null : JSON.stringify(a.metadata), seq: a.seq, prev_hash: a.prev_hash, hash: a.hash,
+    })),
+    syncTreasury(db, daoId),
+    // The imported rows are older than the last rollup
+    staleRollups(db),
+    activity(db, daoId, actor, 'imported', `Imported from ${origin.host} (DAO #${origin.dao_id}) with ${bundle.activity.length} activity rows`, origin),
+  ]);
+  return { dao_id: daoId, proposal_ids: proposalIds };
+}
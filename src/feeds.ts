@@ -0,0 +1,88 @@
+// Activity as syndication feeds — Atom 1.0, RSS 2.0 and JSON Feed 1.1
+//
+// One entry per activity row: the action and DAO make the title, details the
+// content. Entry ids are tag URIs on the request host, so they stay stable
+// across pages and formats.
+
+export const FEED_FORMATS: Record<string, string> = {
+  atom: 'application/atom+xml; charset=utf-8',
+  rss: 'application/rss+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedInfo {
+  title: string;
+  // Human page the feed describes, and the feed's own URL
+  home: string;
+  self: string;
+  host: string;
+}
+
+function xml(value: unknown): string {
+  return String(value ?? '').replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' }[c]!));
+}
+
+function isoTime(sqlTime: string): string {
+  return sqlTime.replace(' ', 'T') + 'Z';
+}
+
+function entryTitle(row: any): string {
+  return `${row.dao_name}: ${row.action.replace(/_/g, ' ')}`;
+}
+
+function entryId(info: FeedInfo, row: any): string {
+  return `tag:${info.host},2024:activity/${row.id}`;
+}
+
+function updated(rows: any[]): string {
+  return rows.length ? isoTime(rows[0].created_at) : new Date().toISOString();
+}
+
+export function renderFeed(format: string, info: FeedInfo, rows: any[]): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: info.title,
+      home_page_url: info.home,
+      feed_url: info.self,
+      items: rows.map(r => ({
+        id: entryId(info, r),
+        url: info.home,
+        title: entryTitle(r),
+        content_text: r.details || r.action,
+        date_published: isoTime(r.created_at),
+        authors: [{ name: r.actor }],
+        tags: [r.action],
+        _activity: { dao_id: r.dao_id, action: r.action, metadata: r.metadata },
+      })),
+    });
+  }
+
+  if (format === 'rss') {
+    return '<?xml version="1.0" encoding="utf-8"?>\n'
+      + '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom"><channel>'
+      + `<title>${xml(info.title)}</title><link>${xml(info.home)}</link><description>${xml(info.title)}</description>`
+      + `<atom:link href="${xml(info.self)}" rel="self" type="application/rss+xml"/>`
+      + `<lastBuildDate>${new Date(updated(rows)).toUTCString()}</lastBuildDate>`
+      + rows.map(r => '<item>'
+        + `<title>${xml(entryTitle(r))}</title><link>${xml(info.home)}</link>`
+        + `<description>${xml(r.details || r.action)}</description>`
+        + `<guid isPermaLink="false">${xml(entryId(info, r))}</guid>`
+        + `<pubDate>${new Date(isoTime(r.created_at)).toUTCString()}</pubDate>`
+        + `<category>${xml(r.action)}</category>`
+        + '</item>').join('')
+      + '</channel></rss>\n';
+  }
+
+  return '<?xml version="1.0" encoding="utf-8"?>\n'
+    + '<feed xmlns="http://www.w3.org/2005/Atom">'
+    + `<title>${xml(info.title)}</title><id>${xml(info.self)}</id><updated>${updated(rows)}</updated>`
+    + `<link rel="alternate" href="${xml(info.home)}"/><link rel="self" href="${xml(info.self)}"/>`
+    + rows.map(r => '<entry>'
+      + `<title>${xml(entryTitle(r))}</title><id>${xml(entryId(info, r))}</id>`
+      + `<updated>${isoTime(r.created_at)}</updated><author><name>${xml(r.actor)}</name></author>`
+      + `<link rel="alternate" href="${xml(info.home)}"/><category term="${xml(r.action)}"/>`
+      + `<content type="text">${xml(r.details || r.action)}</content>`
+      + '</entry>').join('')
+    + '</feed>\n';
+}
@@ -0,0 +1,162 @@
+// Proposal lifecycle — quorum, approval threshold and voting windows
+//
+// A proposal passes as soon as quorum (quorum_pct of the eligible voting weight)
+// is met and approval (yes weight / yes + no weight) reaches approval_threshold;
+// abstentions count towards quorum but not approval. Eligible weight is the
+// proposal's total_weight, which falls back to the member count before the
+// first tally. Votes can change until voting_ends_at, so a proposal is never
+// rejected early; when the window ends it closes as 'rejected' (quorum met, not
+// enough yes votes) or 'expired' (quorum never met). With no eligible weight at
+// all (a contribution or quadratic DAO before its first deposit) it stays open
+// and expires at close.
+
+import { activity } from './activity';
+import { recountActive } from './delegation';
+import { executeProposal, proposalActions } from './execution';
+import { decideJoinRequest, pendingJoinRequest } from './invites';
+
+export const DEFAULT_VOTING_PERIOD_HOURS = 72;
+export const MAX_VOTING_PERIOD_HOURS = 720;
+export const DEFAULT_QUORUM_PCT = 50;
+
+export type Outcome = 'active' | 'passed' | 'rejected' | 'expired';
+
+export interface Evaluation {
+  outcome: Outcome;
+  approval_pct: number;
+  quorum_needed: number;
+  votes_cast: number;
+}
+
+export function evaluate(dao: any, proposal: any, closing = false): Evaluation {
+  const decided = proposal.votes_for + proposal.votes_against;
+  const votesCast = decided + (proposal.votes_abstain || 0);
+  const approvalPct = decided > 0 ? (proposal.votes_for / decided) * 100 : 0;
+  const eligible = proposal.total_weight ?? dao.member_count;
+  const quorumNeeded = Math.max(Math.ceil(eligible * dao.quorum_pct / 100), 1);
+  const result = (outcome: Outcome): Evaluation => ({ outcome, approval_pct: approvalPct, quorum_needed: quorumNeeded, votes_cast: votesCast });
+
+  if (eligible <= 0) return result(closing ? 'expired' : 'active');
+
+  if (votesCast >= quorumNeeded && approvalPct >= dao.approval_threshold) return result('passed');
+  if (closing) return result(votesCast >= quorumNeeded ? 'rejected' : 'expired');
+  return result('active');
+}
+
+// Weighted tally as the pass rule sees it, for API responses
+export function tallySummary(dao: any, proposal: any): Record<string, unknown> {
+  const ev = evaluate(dao, proposal);
+  return {
+    strategy: dao.voting_strategy,
+    votes_for: proposal.votes_for, votes_against: proposal.votes_against, votes_abstain: proposal.votes_abstain || 0,
+    total_weight: proposal.total_weight ?? dao.member_count, weight_cast: ev.votes_cast, quorum_needed: ev.quorum_needed,
+    approval_pct: Math.round(ev.approval_pct * 100) / 100,
+  };
+}
+
+// Apply the outcome of an evaluation. Passed proposals go through the execution engine.
+export async function settleProposal(db: D1Database, dao: any, proposal: any, closing = false): Promise<{ status: string; error?: string }> {
+  const ev = evaluate(dao, proposal, closing);
+  const pct = ev.approval_pct.toFixed(0);
+
+  switch (ev.outcome) {
+    case 'passed':
+      return executeProposal(db, dao, proposal, `"${proposal.title}" passed with ${pct}% approval`, {
+        approval_pct: ev.approval_pct, weight_cast: ev.votes_cast, quorum_needed: ev.quorum_needed,
+      });
+    case 'rejected':
+    case 'expired': {
+      const details = ev.outcome === 'expired'
+        ? `"${proposal.title}" expired with ${ev.votes_cast}/${ev.quorum_needed} votes needed for quorum`
+        : `"${proposal.title}" rejected with ${pct}% approval`;
+      // A membership proposal that fails to pass denies the join requests it was deciding
+      const requests: any[] = [];
+      for (const action of proposalActions(proposal)) {
+        const requestId = action.action_type === 'membership' ? action.payload?.join_request_id : undefined;
+        const request = requestId ? await pendingJoinRequest(db, dao.id, requestId) : null;
+        if (request) requests.push(request);
+      }
+      if (!(await claimOutcome(db, proposal.id, ev.outcome))) return settledStatus(db, proposal.id);
+      await db.batch([
+        activity(db, dao.id, 'system', ev.outcome, details, {
+          proposal_id: proposal.id, approval_pct: ev.approval_pct, weight_cast: ev.votes_cast, quorum_needed: ev.quorum_needed,
+        }),
+        ...requests.flatMap(request => decideJoinRequest(db, request, 'denied', 'system', proposal.id)),
+      ]);
+      return { status: ev.outcome };
+    }
+    default:
+      return { status: 'active' };
+  }
+}
+
+// Move an active proposal to its outcome, on its own before anything the outcome
+// implies: a vote and the cron can settle the same proposal at once, and only the
+// caller whose claim changed the row may apply the effects.
+export async function claimOutcome(db: D1Database, proposalId: number, status: string, error: string | null = null): Promise<boolean> {
+  const claimed = await db
+    .prepare(
+      `UPDATE proposals SET status = ?1, execution_error = ?2,
+         executed_at = CASE WHEN ?1 = 'passed' THEN datetime('now') END, updated_at = datetime('now')
+       WHERE id = ?3 AND status = 'active'`
+    )
+    .bind(status, error, proposalId).run();
+  return claimed.meta.changes === 1;
+}
+
+// What a proposal settled as, for a caller that lost the claim
+export async function settledStatus(db: D1Database, proposalId: number): Promise<{ status: string; error?: string }> {
+  const row = await db
+    .prepare('SELECT status, execution_error FROM proposals WHERE id = ?')
+    .bind(proposalId).first<{ status: string; execution_error: string | null }>();
+  return { status: row?.status ?? 'active', ...(row?.execution_error ? { error: row.execution_error } : {}) };
+}
+
+// Recount active proposals after delegations or membership change, then settle any that now pass or fail
+export async function recountAndSettle(db: D1Database, daoId: string | number, proposalId: number | null = null): Promise<void> {
+  for (const proposal of await recountActive(db, daoId, proposalId)) {
+    const dao = await db.prepare('SELECT * FROM daos WHERE id = ?').bind(daoId).first();
+    await settleProposal(db, dao, proposal);
+  }
+}
+
+// Cron: close every active proposal whose voting window has ended
+export async function closeExpiredProposals(db: D1Database, limit = 100): Promise<number> {
+  const due = await db
+    .prepare(
+      `SELECT * FROM proposals WHERE status = 'active' AND voting_ends_at <= datetime('now')
+       ORDER BY voting_ends_at LIMIT ?`
+    )
+    .bind(limit).all();
+
+  for (const proposal of due.results as any[]) {
+    // Re-read the DAO each time: an earlier execution may have moved its treasury
+    try {
+      const dao = await db.prepare('SELECT * FROM daos WHERE id = ?').bind(proposal.dao_id).first();
+      await settleProposal(db, dao, proposal, true);
+    } catch (e: any) {
+      // One bad row stays active for the next run instead of blocking the rest
+      console.error(`cron: closing proposal #${proposal.id} failed: ${e?.message || e}`);
+    }
+  }
+  return due.results.length;
+}
+
+export function votingClosed(proposal: any, now = Date.now()): boolean {
+  return !!proposal.voting_ends_at && parseSqlTime(proposal.voting_ends_at) <= now;
+}
+
+// SQLite datetime('now') strings are UTC without a zone marker
+export function parseSqlTime(value: string): number {
+  return new Date(value.replace(' ', 'T') + 'Z').getTime();
+}
+
+export function toSqlTime(ms: number): string {
+  return new Date(ms).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export function votingPeriod(value: unknown, fallback: number): number {
+  const hours = Number(value);
+  if (!Number.isInteger(hours) || hours < 1) return fallback;
+  return Math.min(hours, MAX_VOTING_PERIOD_HOURS);
+}
@@ -2,16 +2,55 @@
 // Agents spin up DAOs in 3 clicks — name, treasury rules, invite members
 // Built by Secret Mars for the AIBTC agent network
 
-interface Env {
+import { activity, activityPage } from './activity';
+import { governanceAnalytics, parseAnalyticsQuery, rollupAnalytics } from './analytics';
+import { daoChain, sealActivity, toLink, verifyChain } from './audit';
+import { isPrincipal, purgeNonces, signerMatches, verifyAddressLink, verifyRequest } from './auth';
+import { BOUNTY_STATUSES, BountyStatus, cancelBounty, payBounty } from './bounties';
+import { chainIndexer, ChainEnv, normalizeTxId } from './chain';
+import {
+  deleteComment, EDIT_WINDOW_MINUTES, editable, MAX_COMMENT_LENGTH, nestComments, postComment, validBody,
+} from './comments';
+import { contractHash, treasuryContract } from './contracts';
+import { memberDashboard } from './dashboard';
+import { createsCycle, recountActive, tallyProposal, tallyStatement, withTally } from './delegation';
+import { DEFAULT_MIN_CONFIRMATIONS, recheckPendingDeposits, settleDeposit } from './deposits';
+import { ProposalAction, validateAction } from './execution';
+import { bundleDepositTxIds, checkBundle, exportDao, exportPublicKey, importDao, SIGNATURE_ALGORITHM } from './exports';
+import { FEED_FORMATS, renderFeed } from './feeds';
+import {
+  closeExpiredProposals, DEFAULT_QUORUM_PCT, DEFAULT_VOTING_PERIOD_HOURS, recountAndSettle, settleProposal, tallySummary,
+  votingClosed, votingPeriod,
+} from './governance';
+import {
+  decideJoinRequest, hashToken, inviteHours, newInviteToken, pendingJoinRequest, publicInvite,
+} from './invites';
+import { addMember, adminCount, isAdmin, isMember, isRole, MEMBER_ROLES, removeMember } from './members';
+import { DAO_SORTS, decodeCursor, encodeCursor, ftsQuery, SEARCH_TYPES, searchDaos, searchProposals } from './search';
+import { payDueStreams } from './streams';
+import { fillTemplate, publicTemplate, validateTemplate } from './templates';
+import {
+  contributions, distributionPlan, entriesToCsv, ENTRY_TYPES, escrowBalance, ledgerBalance, ledgerEntries, ledgerTotals,
+} from './treasury';
+import { isStrategy, MAX_REASON_LENGTH, memberWeights, VOTE_CHOICES, VOTING_STRATEGIES } from './voting';
+import {
+  deliverDue, newSecret, parseEvents, publicSubscription, replayDeliveries, validWebhookUrl, webhookEvent,
+} from './webhooks';
+
+interface Env extends ChainEnv {
   DB: D1Database;
   CORS_ORIGIN: string;
+  MIN_CONFIRMATIONS?: string;
+  // secp256k1 private key (hex) that signs export bundles; comma-separated public keys whose bundles may be imported
+  EXPORT_SIGNING_KEY?: string;
+  TRUSTED_EXPORT_KEYS?: string;
 }
 
 function cors(origin: string): HeadersInit {
   return {
     'Access-Control-Allow-Origin': origin,
-    'Access-Control-Allow-Methods': 'GET, POST, PATCH, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Signer, X-Signature, X-Nonce, X-Timestamp',
   };
 }
 
@@ -22,8 +61,95 @@ function json(data: unknown, status = 200, origin = '*'): Response {
   });
 }
 
+// Verify the signed request — returns the JSON body and signer, or a 401 response
+async function authenticate(request: Request, env: Env, path: string, origin: string): Promise<{ body: any; signer: string } | Response> {
+  const auth = await verifyRequest(request, env.DB, path);
+  if (!auth.ok) return json({ error: auth.error, code: auth.code }, auth.code === 'invalid_body' ? 400 : 401, origin);
+  return { body: auth.body, signer: auth.signer };
+}
+
+function minConfirmations(env: Env): number {
+  return parseInt(env.MIN_CONFIRMATIONS || '') || DEFAULT_MIN_CONFIRMATIONS;
+}
+
+function signerMismatch(field: string, origin: string): Response {
+  return json({ error: `Signature does not match ${field}`, code: 'signer_mismatch' }, 401, origin);
+}
+
+// Subscriptions carry URLs and delivery payloads, so reading them takes the same rights as
+// managing them: a DAO's admins for its subscriptions, the owner for factory-wide ones
+async function webhookAccessError(
+  env: Env, sub: { dao_id: string | number | null; owner: string | null }, actor: string | null, signer: string, origin: string,
+): Promise<Response | null> {
+  if (!actor) return json({ error: 'Required: actor' }, 400, origin);
+  if (sub.dao_id) {
+    if (!(await signerMatches(env.DB, sub.dao_id, actor, signer))) return signerMismatch('actor', origin);
+    if (!(await isAdmin(env.DB, sub.dao_id, actor))) return json({ error: 'Only admins can manage webhooks' }, 403, origin);
+  } else {
+    if (signer !== actor) return signerMismatch('actor', origin);
+    if (sub.owner !== actor) return json({ error: 'Only the owner can manage this webhook' }, 403, origin);
+  }
+  return null;
+}
+
+// A request that stores stx_address for btc_address must be signed by one of them and carry
+// link_signature from the other; see linkMessage in src/auth.ts
+function addressLinkError(
+  signer: string, btcAddress: string, stxAddress: unknown, linkSignature: unknown, field: string, origin: string,
+): Response | null {
+  if (signer !== btcAddress && (!stxAddress || signer !== stxAddress)) return signerMismatch(field, origin);
+  if (stxAddress && !verifyAddressLink(btcAddress, String(stxAddress), signer, linkSignature)) {
+    return json({ error: 'link_signature must prove the same owner holds both addresses', code: 'signature_invalid' }, 401, origin);
+  }
+  return null;
+}
+
+// A failing cron step is logged and the next one runs anyway
+async function cronStep(name: string, run: () => Promise<unknown>): Promise<void> {
+  try {
+    await run();
+  } catch (e: any) {
+    console.error(`cron: ${name} failed: ${e?.message || e}`);
+  }
+}
+
+// Insert a validated proposal and announce it — shared by POST /proposals and PATCH /api/daos/:id
+async function openProposal(
+  db: D1Database, dao: any, proposer: string, title: string, description: string | null, action: ProposalAction, votingHours: number,
+  templateId: number | null = null,
+): Promise<{ proposal_id: number; voting_ends_at?: string }> {
+  const result = await db
+    .prepare(
+      `INSERT INTO proposals (dao_id, proposer, title, description, action_type, amount_sats, recipient, action_payload, voting_ends_at, template_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now', ?), ?)`
+    )
+    .bind(dao.id, proposer, title, description,
+          action.action_type, action.amount_sats, action.recipient,
+          action.payload ? JSON.stringify(action.payload) : null, `+${votingHours} hours`, templateId)
+    .run();
+
+  await db.batch([
+    db.prepare('UPDATE daos SET proposal_count = proposal_count + 1, updated_at = datetime(\'now\') WHERE id = ?').bind(dao.id),
+    activity(db, dao.id, proposer, 'proposed', title, {
+      proposal_id: result.meta.last_row_id, action_type: action.action_type, template_id: templateId,
+    }),
+    webhookEvent(db, dao.id, 'proposed', {
+      proposal_id: result.meta.last_row_id, title, proposer,
+      action_type: action.action_type, amount_sats: action.amount_sats, recipient: action.recipient,
+    }),
+  ]);
+
+  // Record the eligible weight quorum is measured against
+  await recountActive(db, dao.id, result.meta.last_row_id);
+
+  const created = await db
+    .prepare('SELECT voting_ends_at FROM proposals WHERE id = ?')
+    .bind(result.meta.last_row_id).first<{ voting_ends_at: string }>();
+  return { proposal_id: result.meta.last_row_id, voting_ends_at: created?.voting_ends_at };
+}
+
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
     const origin = env.CORS_ORIGIN || '*';
@@ -35,12 +161,23 @@ export default {
     // ── POST /api/daos — Create a DAO (click 1: name + rules) ──
     if (request.method === 'POST' && path === '/api/daos') {
       try {
-        const body = await request.json() as any;
+        const auth = await authenticate(request, env, path, origin);
+        if (auth instanceof Response) return auth;
+        const body = auth.body;
         if (!body.name || !body.description || !body.creator) {
           return json({ error: 'Required: name, description, creator' }, 400, origin);
         }
+        const unlinked = addressLinkError(auth.signer, body.creator, body.creator_stx, body.link_signature, 'creator', origin);
+        if (unlinked) return unlinked;
         const threshold = Math.min(Math.max(body.approval_threshold || 51, 1), 100);
         const spendLimit = body.spend_limit_sats || 0;
+        const quorum = Math.min(Math.max(body.quorum_pct || DEFAULT_QUORUM_PCT, 1), 100);
+        const votingHours = votingPeriod(body.voting_period_hours, DEFAULT_VOTING_PERIOD_HOURS);
+        if (body.treasury_address && !isPrincipal(body.treasury_address)) {
+          return json({ error: 'treasury_address must be a Stacks principal' }, 400, origin);
+        }
+        const strategy = body.voting_strategy ?? 'equal';
+        if (!isStrategy(strategy)) return json({ error: `voting_strategy must be one of: ${VOTING_STRATEGIES.join(', ')}` }, 400, origin);
 
         // Check unique name
         const exists = await env.DB.prepare('SELECT id FROM daos WHERE name = ?').bind(body.name).first();
@@ -48,10 +185,12 @@ export default {
 
         const result = await env.DB
           .prepare(
-            `INSERT INTO daos (name, description, creator, creator_name, approval_threshold, spend_limit_sats)
-             VALUES (?, ?, ?, ?, ?, ?)`
+            `INSERT INTO daos (name, description, creator, creator_name, approval_threshold, spend_limit_sats, quorum_pct, voting_period_hours,
+               treasury_address, voting_strategy)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
           )
-          .bind(body.name, body.description, body.creator, body.creator_name || null, threshold, spendLimit)
+          .bind(body.name, body.description, body.creator, body.creator_name || null, threshold, spendLimit, quorum, votingHours,
+                body.treasury_address || null, strategy)
           .run();
 
         const daoId = result.meta.last_row_id;
@@ -62,10 +201,15 @@ export default {
           .bind(daoId, body.creator, body.creator_stx || null, body.creator_name || null, 'admin')
           .run();
 
-        await env.DB
-          .prepare('INSERT INTO activity (dao_id, actor, action, details) VALUES (?, ?, ?, ?)')
-          .bind(daoId, body.creator, 'created', `DAO "${body.name}" created with ${threshold}% approval threshold`)
-          .run();
+        await env.DB.batch([
+          activity(env.DB, daoId, body.creator, 'created', `DAO "${body.name}" created with ${threshold}% approval threshold`,
+            { name: body.name, approval_threshold: threshold, quorum_pct: quorum }),
+          webhookEvent(env.DB, daoId, 'created', {
+            name: body.name, creator: body.creator, approval_threshold: threshold, quorum_pct: quorum,
+            spend_limit_sats: spendLimit, voting_period_hours: votingHours, voting_strategy: strategy,
+          }),
+        ]);
+        ctx.waitUntil(deliverDue(env.DB));
 
         return json({ success: true, dao_id: daoId, name: body.name }, 201, origin);
       } catch (e: any) {
@@ -73,25 +217,59 @@ export default {
       }
     }
 
-    // ── GET /api/daos — List all DAOs ──
+    // ── GET /api/daos — List DAOs (?status=&sort=&creator=&min_treasury=&limit=&cursor=) ──
     if (request.method === 'GET' && path === '/api/daos') {
       const status = url.searchParams.get('status') || 'active';
+      const sort = url.searchParams.get('sort') || 'created';
+      if (!DAO_SORTS[sort]) return json({ error: `sort must be one of: ${Object.keys(DAO_SORTS).join(', ')}` }, 400, origin);
+      const creator = url.searchParams.get('creator');
+      const minTreasury = url.searchParams.get('min_treasury');
+      if (minTreasury !== null && !/^\d+$/.test(minTreasury)) return json({ error: 'min_treasury must be a non-negative integer' }, 400, origin);
+      const cursorParam = url.searchParams.get('cursor');
+      const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+      if (cursorParam && !cursor) return json({ error: 'Invalid cursor' }, 400, origin);
       const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
-      const offset = parseInt(url.searchParams.get('offset') || '0');
 
+      // Sort column comes from DAO_SORTS, never from the request; ties break on id
+      const key = DAO_SORTS[sort];
+      const filters = `status = ?1 AND (?2 IS NULL OR creator = ?2) AND (?3 IS NULL OR treasury_sats >= ?3)`;
       const daos = await env.DB
-        .prepare('SELECT * FROM daos WHERE status = ? ORDER BY created_at DESC LIMIT ? OFFSET ?')
-        .bind(status, limit, offset)
+        .prepare(
+          `SELECT *, ${key} AS sort_key FROM daos
+           WHERE ${filters} AND (?4 IS NULL OR ${key} < ?4 OR (${key} = ?4 AND id < ?5))
+           ORDER BY ${key} DESC, id DESC LIMIT ?6`
+        )
+        .bind(status, creator, minTreasury === null ? null : Number(minTreasury), cursor?.[0] ?? null, cursor?.[1] ?? null, limit + 1)
         .all();
 
       const count = await env.DB
-        .prepare('SELECT COUNT(*) as total FROM daos WHERE status = ?')
-        .bind(status)
+        .prepare(`SELECT COUNT(*) as total FROM daos WHERE ${filters}`)
+        .bind(status, creator, minTreasury === null ? null : Number(minTreasury))
         .first<{ total: number }>();
 
+      const page = (daos.results as any[]).slice(0, limit);
+      const hasMore = daos.results.length > limit;
+      const last = page[page.length - 1];
       return json({
-        daos: daos.results,
-        pagination: { total: count?.total || 0, limit, offset, hasMore: offset + limit < (count?.total || 0) }
+        daos: page.map(({ sort_key, ...dao }) => dao),
+        pagination: { total: count?.total || 0, limit, sort, hasMore, next_cursor: hasMore ? encodeCursor(last.sort_key, last.id) : null }
+      }, 200, origin);
+    }
+
+    // ── GET /api/search — Full-text search over DAOs and proposals (?q=&type=&dao_id=&limit=) ──
+    if (request.method === 'GET' && path === '/api/search') {
+      const q = url.searchParams.get('q') || '';
+      const match = ftsQuery(q);
+      if (!match) return json({ error: 'Required: q' }, 400, origin);
+      const type = url.searchParams.get('type') || 'all';
+      if (!(SEARCH_TYPES as readonly string[]).includes(type)) return json({ error: `type must be one of: ${SEARCH_TYPES.join(', ')}` }, 400, origin);
+      const daoId = url.searchParams.get('dao_id');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+
+      return json({
+        query: q,
+        daos: type === 'proposals' || daoId ? [] : await searchDaos(env.DB, match, limit),
+        proposals: type === 'daos' ? [] : await searchProposals(env.DB, match, limit, daoId),
       }, 200, origin);
     }
 
@@ -107,58 +285,585 @@ export default {
       const proposals = await env.DB
         .prepare('SELECT * FROM proposals WHERE dao_id = ? ORDER BY created_at DESC LIMIT 20')
         .bind(id).all();
-      const activity = await env.DB
-        .prepare('SELECT * FROM activity WHERE dao_id = ? ORDER BY created_at DESC LIMIT 30')
+      const recent = await activityPage(env.DB, { daoId: (dao as any).id, actions: [], actor: null, before: null, limit: 30 });
+
+      const tallied = (proposals.results as any[]).map(p => ({ ...p, tally: tallySummary(dao, p) }));
+
+      return json({ dao, members: members.results, proposals: tallied, activity: recent }, 200, origin);
+    }
+
+    // ── GET /api/activity, GET /api/daos/:id/activity — Activity feed (?action=&actor=&limit=&cursor=) ──
+    //    with .atom, .rss or .json appended: the same page as a syndication feed
+    const feedRoute = path.match(/^\/api(?:\/daos\/(\d+))?\/activity(?:\.(atom|rss|json))?$/);
+    if (request.method === 'GET' && feedRoute) {
+      const [, daoId, format] = feedRoute;
+      const dao = daoId ? await env.DB.prepare('SELECT id, name FROM daos WHERE id = ?').bind(daoId).first<{ id: number; name: string }>() : null;
+      if (daoId && !dao) return json({ error: 'DAO not found' }, 404, origin);
+
+      const actions = (url.searchParams.get('action') || '').split(',').map(a => a.trim()).filter(Boolean);
+      const cursorParam = url.searchParams.get('cursor');
+      const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+      if (cursorParam && !cursor) return json({ error: 'Invalid cursor' }, 400, origin);
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+
+      const rows = await activityPage(env.DB, {
+        daoId: daoId ?? null, actions, actor: url.searchParams.get('actor'), before: cursor?.[1] ?? null, limit: limit + 1,
+      });
+      const page = rows.slice(0, limit);
+      const hasMore = rows.length > limit;
+
+      if (format) {
+        const info = { title: dao ? `${dao.name} — DAO Factory activity` : 'DAO Factory activity', home: `${url.origin}/`, self: url.href, host: url.hostname };
+        return new Response(renderFeed(format, info, page), { headers: { 'Content-Type': FEED_FORMATS[format], ...cors(origin) } });
+      }
+      const last = page[page.length - 1];
+      return json({
+        activity: page,
+        pagination: { limit, hasMore, next_cursor: hasMore ? encodeCursor(last.created_at, last.id) : null }
+      }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/activity/verify — Check the DAO's activity hash chain ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/activity\/verify$/)) {
+      const id = path.split('/')[3];
+      const dao = await env.DB.prepare('SELECT id FROM daos WHERE id = ?').bind(id).first();
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      const rows = await daoChain(env.DB, id);
+      return json({ dao_id: Number(id), ...verifyChain(rows.map(r => ({ ...toLink(r), id: r.id }))) }, 200, origin);
+    }
+
+    // ── GET /api/export-key — Public key that signs this deployment's export bundles ──
+    if (request.method === 'GET' && path === '/api/export-key') {
+      if (!env.EXPORT_SIGNING_KEY) return json({ error: 'Exports are not configured' }, 404, origin);
+      return json({ algorithm: SIGNATURE_ALGORITHM, public_key: exportPublicKey(env.EXPORT_SIGNING_KEY) }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/export — Signed bundle of members, proposals, votes, ledger and activity ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/export$/)) {
+      const id = path.split('/')[3];
+      if (!env.EXPORT_SIGNING_KEY) return json({ error: 'Exports are not configured' }, 503, origin);
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first();
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      const bundle = await exportDao(env.DB, dao, url.host, env.EXPORT_SIGNING_KEY);
+      return new Response(JSON.stringify(bundle), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="dao-${id}-export.json"`,
+          ...cors(origin),
+        },
+      });
+    }
+
+    // ── POST /api/import — Rebuild a DAO from another deployment's export (an admin in the bundle; `actor`, `bundle`, `name?`) ──
+    if (request.method === 'POST' && path === '/api/import') {
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor || !body.bundle) return json({ error: 'Required: actor, bundle' }, 400, origin);
+
+      const trusted = (env.TRUSTED_EXPORT_KEYS || '').split(',').map(k => k.trim()).filter(Boolean);
+      if (!trusted.length) return json({ error: 'Imports are disabled — TRUSTED_EXPORT_KEYS is not set' }, 403, origin);
+      const problem = checkBundle(body.bundle, trusted);
+      if (problem) return json({ error: problem }, 422, origin);
+
+      const admin = body.bundle.members.find((m: any) => m.btc_address === body.actor && m.role === 'admin');
+      if (!admin) return json({ error: 'Only an admin of the exported DAO can import it' }, 403, origin);
+      if (auth.signer !== admin.btc_address && auth.signer !== admin.stx_address) return signerMismatch('actor', origin);
+
+      const name = body.name ?? body.bundle.dao.name;
+      if (typeof name !== 'string' || !name.trim()) return json({ error: 'name must be a non-empty string' }, 400, origin);
+      const taken = await env.DB.prepare('SELECT id FROM daos WHERE name = ?').bind(name).first();
+      if (taken) return json({ error: `A DAO named "${name}" already exists — pass a different name` }, 409, origin);
+
+      const txIds = bundleDepositTxIds(body.bundle);
+      if (txIds.length) {
+        const claimed = await env.DB
+          .prepare('SELECT tx_id FROM deposits WHERE tx_id IN (SELECT value FROM json_each(?)) AND status != \'rejected\' LIMIT 1')
+          .bind(JSON.stringify(txIds)).first<{ tx_id: string }>();
+        if (claimed) return json({ error: `Deposit ${claimed.tx_id} is already recorded on this deployment` }, 409, origin);
+      }
+
+      try {
+        const imported = await importDao(env.DB, body.bundle, name, body.actor);
+        await recountActive(env.DB, imported.dao_id);
+        return json({ success: true, ...imported, chain: body.bundle.chain }, 201, origin);
+      } catch (e: any) {
+        return json({ error: `Import failed, nothing was written: ${e.message || e}` }, 409, origin);
+      }
+    }
+
+    // ── PATCH /api/daos/:id — Propose a settings change (applied when the proposal passes) ──
+    if (request.method === 'PATCH' && path.match(/^\/api\/daos\/\d+$/)) {
+      const id = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.proposer || !body.settings) {
+        return json({ error: 'Required: proposer, settings' }, 400, origin);
+      }
+      if (!(await signerMatches(env.DB, id, body.proposer, auth.signer))) return signerMismatch('proposer', origin);
+
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      if (dao.status !== 'active') return json({ error: `DAO is ${dao.status} — no new proposals` }, 409, origin);
+
+      const member = await env.DB
+        .prepare('SELECT id FROM members WHERE dao_id = ? AND btc_address = ?')
+        .bind(id, body.proposer).first();
+      if (!member) return json({ error: 'Only members can propose settings changes' }, 403, origin);
+
+      const action = await validateAction(env.DB, dao, { action_type: 'settings', action_payload: body.settings });
+      if (typeof action === 'string') return json({ error: action }, 400, origin);
+
+      const title = body.title || `Change settings: ${Object.keys(action.payload!).join(', ')}`;
+      const votingHours = votingPeriod(body.voting_period_hours, dao.voting_period_hours);
+      const created = await openProposal(env.DB, dao, body.proposer, title, body.description || null, action, votingHours);
+      ctx.waitUntil(deliverDue(env.DB));
+
+      return json({ success: true, ...created, changes: action.payload }, 202, origin);
+    }
+
+    // ── GET /api/daos/:id/distribution — Pro-rata treasury distribution plan ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/distribution$/)) {
+      const id = path.split('/')[3];
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+
+      return json({
+        dao_id: dao.id, status: dao.status, dissolved_at: dao.dissolved_at,
+        final: dao.status === 'dissolved',
+        ...(await distributionPlan(env.DB, id)),
+      }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/contract — Clarity treasury contract rendered from the DAO's settings ──
+    // ── GET /api/daos/:id/contract.clar — The same source, ready to deploy ──
+    const contractRoute = path.match(/^\/api\/daos\/(\d+)\/contract(\.clar)?$/);
+    if (request.method === 'GET' && contractRoute) {
+      const [, id, raw] = contractRoute;
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      const members = await env.DB
+        .prepare('SELECT btc_address, stx_address, role FROM members WHERE dao_id = ?')
         .bind(id).all();
 
-      return json({ dao, members: members.results, proposals: proposals.results, activity: activity.results }, 200, origin);
+      const contract = await treasuryContract(dao, members.results as any[], env.SBTC_ASSET_ID);
+      if (typeof contract === 'string') return json({ error: contract }, 409, origin);
+      if (raw) {
+        return new Response(contract.source, {
+          headers: {
+            'Content-Type': 'text/plain; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${contract.contract_name}.clar"`,
+            'X-Content-SHA256': contract.sha256,
+            ...cors(origin),
+          },
+        });
+      }
+
+      // Once deployed, compare what's on chain with what the current settings render to
+      let deployed: Record<string, unknown> | null = null;
+      if (dao.contract_principal) {
+        try {
+          const source = await chainIndexer(env).getContractSource(dao.contract_principal);
+          const sha256 = source === null ? null : await contractHash(source);
+          deployed = { principal: dao.contract_principal, found: source !== null, sha256, matches: sha256 === contract.sha256 };
+        } catch (e: any) {
+          deployed = { principal: dao.contract_principal, error: e.message };
+        }
+      }
+
+      return json({ dao_id: dao.id, ...contract, deployed }, 200, origin);
     }
 
     // ── POST /api/daos/:id/members — Invite a member (click 3: invite) ──
+    // Creates a single-use invite token; the invitee joins by accepting it
     if (request.method === 'POST' && path.match(/^\/api\/daos\/\d+\/members$/)) {
       const id = path.split('/')[3];
-      const body = await request.json() as any;
-      if (!body.btc_address || !body.inviter) {
-        return json({ error: 'Required: btc_address, inviter' }, 400, origin);
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.inviter) return json({ error: 'Required: inviter' }, 400, origin);
+      if (!(await signerMatches(env.DB, id, body.inviter, auth.signer))) return signerMismatch('inviter', origin);
+
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      if (dao.status !== 'active') return json({ error: `DAO is ${dao.status} — no new members` }, 409, origin);
+      if (!(await isAdmin(env.DB, id, body.inviter))) return json({ error: 'Only admins can invite members' }, 403, origin);
+
+      const role = body.role ?? 'member';
+      if (!isRole(role)) return json({ error: `role must be one of: ${MEMBER_ROLES.join(', ')}` }, 400, origin);
+      if (body.btc_address && (await isMember(env.DB, id, body.btc_address))) return json({ error: 'Already a member' }, 409, origin);
+
+      const token = newInviteToken();
+      const hours = inviteHours(body.expires_in_hours);
+      const result = await env.DB
+        .prepare(
+          `INSERT INTO invites (dao_id, token_hash, btc_address, display_name, role, created_by, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?, datetime('now', ?))`
+        )
+        .bind(id, await hashToken(token), body.btc_address || null, body.display_name || null, role, body.inviter, `+${hours} hours`)
+        .run();
+      const invite = await env.DB.prepare('SELECT * FROM invites WHERE id = ?').bind(result.meta.last_row_id).first() as any;
+
+      await env.DB.batch([
+        activity(env.DB, id, body.inviter, 'invited',
+          `${body.display_name || body.btc_address || 'Open invite'} invited as ${role}, expires ${invite.expires_at}`,
+          { invite_id: invite.id, address: invite.btc_address, role, expires_at: invite.expires_at }),
+        webhookEvent(env.DB, id, 'invited', {
+          invite_id: invite.id, btc_address: invite.btc_address, display_name: invite.display_name, role, inviter: body.inviter,
+          expires_at: invite.expires_at,
+        }),
+      ]);
+      ctx.waitUntil(deliverDue(env.DB));
+
+      // The token is only returned here
+      return json({ success: true, invite: publicInvite(invite), token }, 201, origin);
+    }
+
+    // ── GET /api/daos/:id/invites — Invites and their state ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/invites$/)) {
+      const id = path.split('/')[3];
+      const invites = await env.DB
+        .prepare('SELECT * FROM invites WHERE dao_id = ? ORDER BY id DESC LIMIT 100')
+        .bind(id).all();
+      return json({ invites: invites.results.map(publicInvite) }, 200, origin);
+    }
+
+    // ── DELETE /api/daos/:id/invites/:iid — Revoke a pending invite (admin) ──
+    const inviteRoute = path.match(/^\/api\/daos\/(\d+)\/invites\/(\d+)$/);
+    if (request.method === 'DELETE' && inviteRoute) {
+      const [, id, iid] = inviteRoute;
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+      if (!(await signerMatches(env.DB, id, body.actor, auth.signer))) return signerMismatch('actor', origin);
+      if (!(await isAdmin(env.DB, id, body.actor))) return json({ error: 'Only admins can revoke invites' }, 403, origin);
+
+      const result = await env.DB
+        .prepare('UPDATE invites SET status = ?, revoked_at = datetime(\'now\') WHERE id = ? AND dao_id = ? AND status = ?')
+        .bind('revoked', iid, id, 'pending').run();
+      if (!result.meta.changes) return json({ error: 'No pending invite with that id' }, 404, origin);
+      await activity(env.DB, id, body.actor, 'invite_revoked', `Invite #${iid} revoked`, { invite_id: Number(iid) }).run();
+
+      return json({ success: true }, 200, origin);
+    }
+
+    // ── GET /api/invites/:token — Look up an invite before accepting it ──
+    // ── POST /api/invites/:token/accept — Join with the invitee's own address ──
+    const tokenRoute = path.match(/^\/api\/invites\/(inv_[0-9a-f]{48})(\/accept)?$/);
+    if (tokenRoute && ((request.method === 'GET' && !tokenRoute[2]) || (request.method === 'POST' && tokenRoute[2]))) {
+      const invite = await env.DB
+        .prepare(
+          `SELECT invites.*, daos.name as dao_name, daos.status as dao_status FROM invites
+           JOIN daos ON daos.id = invites.dao_id WHERE token_hash = ?`
+        )
+        .bind(await hashToken(tokenRoute[1])).first() as any;
+      if (!invite) return json({ error: 'Invite not found' }, 404, origin);
+      if (request.method === 'GET') return json({ invite: publicInvite(invite) }, 200, origin);
+
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.btc_address) return json({ error: 'Required: btc_address' }, 400, origin);
+      const unlinked = addressLinkError(auth.signer, body.btc_address, body.stx_address, body.link_signature, 'btc_address', origin);
+      if (unlinked) return unlinked;
+
+      const state = publicInvite(invite).status;
+      if (state !== 'pending') return json({ error: `Invite is ${state}` }, 410, origin);
+      if (invite.dao_status !== 'active') return json({ error: `DAO is ${invite.dao_status} — no new members` }, 409, origin);
+      if (invite.btc_address && invite.btc_address !== body.btc_address) {
+        return json({ error: 'This invite is for a different address' }, 403, origin);
       }
+      if (await isMember(env.DB, invite.dao_id, body.btc_address)) return json({ error: 'Already a member' }, 409, origin);
+
+      // Claim the token first so two concurrent accepts can't both use it
+      const claimed = await env.DB
+        .prepare(
+          `UPDATE invites SET status = 'accepted', accepted_by = ?, accepted_at = datetime('now')
+           WHERE id = ? AND status = 'pending' AND expires_at > datetime('now')`
+        )
+        .bind(body.btc_address, invite.id).run();
+      if (!claimed.meta.changes) return json({ error: 'Invite is no longer valid' }, 410, origin);
+
+      const name = body.display_name || invite.display_name || null;
+      await env.DB.batch([
+        ...addMember(env.DB, invite.dao_id, {
+          btc_address: body.btc_address, stx_address: body.stx_address, display_name: name, role: invite.role,
+        }, body.btc_address, 'joined', `${name || body.btc_address} joined as ${invite.role} (invite #${invite.id})`, { invite_id: invite.id }),
+        webhookEvent(env.DB, invite.dao_id, 'joined', {
+          btc_address: body.btc_address, display_name: name, role: invite.role, invite_id: invite.id, join_request_id: null,
+        }),
+      ]);
+      await recountActive(env.DB, invite.dao_id);
+      ctx.waitUntil(deliverDue(env.DB));
+
+      return json({ success: true, dao_id: invite.dao_id, role: invite.role }, 201, origin);
+    }
+
+    // ── POST /api/daos/:id/join-requests — Ask to join a DAO ──
+    if (request.method === 'POST' && path.match(/^\/api\/daos\/\d+\/join-requests$/)) {
+      const id = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.btc_address) return json({ error: 'Required: btc_address' }, 400, origin);
+      const unlinked = addressLinkError(auth.signer, body.btc_address, body.stx_address, body.link_signature, 'btc_address', origin);
+      if (unlinked) return unlinked;
 
       const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
       if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      if (dao.status !== 'active') return json({ error: `DAO is ${dao.status} — no new members` }, 409, origin);
+      if (await isMember(env.DB, id, body.btc_address)) return json({ error: 'Already a member' }, 409, origin);
 
-      // Check inviter is admin
-      const inviterMember = await env.DB
-        .prepare('SELECT * FROM members WHERE dao_id = ? AND btc_address = ? AND role = ?')
-        .bind(id, body.inviter, 'admin').first();
-      if (!inviterMember) return json({ error: 'Only admins can invite members' }, 403, origin);
+      const pending = await env.DB
+        .prepare('SELECT id FROM join_requests WHERE dao_id = ? AND btc_address = ? AND status = ?')
+        .bind(id, body.btc_address, 'pending').first();
+      if (pending) return json({ error: 'A join request is already pending', join_request_id: (pending as any).id }, 409, origin);
 
-      // Check not already member
-      const existing = await env.DB
-        .prepare('SELECT id FROM members WHERE dao_id = ? AND btc_address = ?')
-        .bind(id, body.btc_address).first();
-      if (existing) return json({ error: 'Already a member' }, 409, origin);
+      const result = await env.DB
+        .prepare('INSERT INTO join_requests (dao_id, btc_address, stx_address, display_name, message) VALUES (?, ?, ?, ?, ?)')
+        .bind(id, body.btc_address, body.stx_address || null, body.display_name || null, body.message || null)
+        .run();
+      await activity(env.DB, id, body.btc_address, 'join_requested', `${body.display_name || body.btc_address} asked to join`,
+        { join_request_id: result.meta.last_row_id }).run();
+
+      return json({ success: true, join_request_id: result.meta.last_row_id }, 201, origin);
+    }
 
+    // ── GET /api/daos/:id/join-requests — Join requests (?status=) ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/join-requests$/)) {
+      const id = path.split('/')[3];
+      const status = url.searchParams.get('status');
+      const requests = await env.DB
+        .prepare('SELECT * FROM join_requests WHERE dao_id = ? AND (? IS NULL OR status = ?) ORDER BY id DESC LIMIT 100')
+        .bind(id, status, status).all();
+      return json({ join_requests: requests.results }, 200, origin);
+    }
+
+    // ── POST /api/daos/:id/join-requests/:rid/approve|deny — Decide a request (admin) ──
+    // ── DELETE /api/daos/:id/join-requests/:rid — Withdraw a request (applicant) ──
+    const joinRoute = path.match(/^\/api\/daos\/(\d+)\/join-requests\/(\d+)(?:\/(approve|deny))?$/);
+    if (joinRoute && ((request.method === 'POST' && joinRoute[3]) || (request.method === 'DELETE' && !joinRoute[3]))) {
+      const [, id, rid, decision] = joinRoute;
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+
+      const joinRequest = await pendingJoinRequest(env.DB, id, rid);
+      if (!joinRequest) return json({ error: 'No pending join request with that id' }, 404, origin);
+
+      if (request.method === 'DELETE') {
+        if (body.actor !== joinRequest.btc_address) return json({ error: 'Only the applicant can withdraw a join request' }, 403, origin);
+        if (auth.signer !== body.actor && auth.signer !== joinRequest.stx_address) return signerMismatch('actor', origin);
+        await env.DB.batch([
+          env.DB.prepare('UPDATE join_requests SET status = ?, decided_by = ?, decided_at = datetime(\'now\') WHERE id = ?')
+            .bind('withdrawn', body.actor, rid),
+          activity(env.DB, id, body.actor, 'join_withdrawn', `${joinRequest.display_name || joinRequest.btc_address} withdrew their join request`,
+            { join_request_id: joinRequest.id }),
+        ]);
+        return json({ success: true }, 200, origin);
+      }
+
+      if (!(await signerMatches(env.DB, id, body.actor, auth.signer))) return signerMismatch('actor', origin);
+      if (!(await isAdmin(env.DB, id, body.actor))) return json({ error: 'Only admins can decide join requests' }, 403, origin);
+
+      if (decision === 'deny') {
+        await env.DB.batch(decideJoinRequest(env.DB, joinRequest, 'denied', body.actor));
+        return json({ success: true, status: 'denied' }, 200, origin);
+      }
+
+      const dao = await env.DB.prepare('SELECT status FROM daos WHERE id = ?').bind(id).first<{ status: string }>();
+      if (dao?.status !== 'active') return json({ error: `DAO is ${dao?.status} — no new members` }, 409, origin);
+      if (await isMember(env.DB, id, joinRequest.btc_address)) return json({ error: 'Already a member' }, 409, origin);
+
+      const name = joinRequest.display_name || joinRequest.btc_address;
       await env.DB.batch([
-        env.DB.prepare('INSERT INTO members (dao_id, btc_address, stx_address, display_name, role) VALUES (?, ?, ?, ?, ?)')
-          .bind(id, body.btc_address, body.stx_address || null, body.display_name || null, body.role || 'member'),
-        env.DB.prepare('UPDATE daos SET member_count = member_count + 1, updated_at = datetime(\'now\') WHERE id = ?')
-          .bind(id),
-        env.DB.prepare('INSERT INTO activity (dao_id, actor, action, details) VALUES (?, ?, ?, ?)')
-          .bind(id, body.inviter, 'invited', `${body.display_name || body.btc_address} added as ${body.role || 'member'}`),
+        ...decideJoinRequest(env.DB, joinRequest, 'approved', body.actor),
+        ...addMember(env.DB, id, {
+          btc_address: joinRequest.btc_address, stx_address: joinRequest.stx_address, display_name: joinRequest.display_name, role: 'member',
+        }, joinRequest.btc_address, 'joined', `${name} joined as member (join request #${rid})`, { join_request_id: Number(rid) }),
+        webhookEvent(env.DB, id, 'joined', {
+          btc_address: joinRequest.btc_address, display_name: joinRequest.display_name, role: 'member', invite_id: null, join_request_id: Number(rid),
+        }),
       ]);
+      await recountActive(env.DB, id);
+      ctx.waitUntil(deliverDue(env.DB));
+
+      return json({ success: true, status: 'approved' }, 200, origin);
+    }
+
+    // ── GET /api/members/:address — Memberships, proposals awaiting this address's vote, votes and deposits ──
+    if (request.method === 'GET' && path.match(/^\/api\/members\/[^/]+$/)) {
+      const address = decodeURIComponent(path.split('/')[3]);
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+      return json(await memberDashboard(env.DB, address, limit), 200, origin);
+    }
+
+    // ── PATCH /api/daos/:id/members/:address — Change role (admin) or display name (self or admin) ──
+    // ── DELETE /api/daos/:id/members/:address — Leave (self) or remove (admin) ──
+    const memberRoute = path.match(/^\/api\/daos\/(\d+)\/members\/([A-Za-z0-9]+)$/);
+    if (memberRoute && (request.method === 'PATCH' || request.method === 'DELETE')) {
+      const [, id, address] = memberRoute;
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+      if (!(await signerMatches(env.DB, id, body.actor, auth.signer))) return signerMismatch('actor', origin);
+
+      const target = await env.DB
+        .prepare('SELECT * FROM members WHERE dao_id = ? AND btc_address = ?')
+        .bind(id, address).first() as any;
+      if (!target) return json({ error: 'Member not found' }, 404, origin);
+
+      const self = body.actor === address;
+      const actorIsAdmin = await isAdmin(env.DB, id, body.actor);
+      const lastAdmin = target.role === 'admin' && (await adminCount(env.DB, id)) <= 1;
+
+      if (request.method === 'DELETE') {
+        if (!self && !actorIsAdmin) return json({ error: 'Only admins can remove other members' }, 403, origin);
+        if (lastAdmin) return json({ error: 'The last admin cannot leave or be removed — promote another admin first' }, 409, origin);
+
+        const name = target.display_name || address;
+        await env.DB.batch(self
+          ? removeMember(env.DB, id, address, body.actor, 'left', `${name} left the DAO`)
+          : removeMember(env.DB, id, address, body.actor, 'removed', `${name} removed`));
+        await recountAndSettle(env.DB, id);
+
+        return json({ success: true }, 200, origin);
+      }
+
+      if (body.role === undefined && body.display_name === undefined) {
+        return json({ error: 'Nothing to update: role, display_name' }, 400, origin);
+      }
+      const statements: D1PreparedStatement[] = [];
+
+      if (body.role !== undefined && body.role !== target.role) {
+        if (!actorIsAdmin) return json({ error: 'Only admins can change roles' }, 403, origin);
+        if (!isRole(body.role)) return json({ error: `role must be one of: ${MEMBER_ROLES.join(', ')}` }, 400, origin);
+        if (lastAdmin) return json({ error: 'The last admin cannot be demoted — promote another admin first' }, 409, origin);
+        statements.push(
+          env.DB.prepare('UPDATE members SET role = ? WHERE id = ?').bind(body.role, target.id),
+          activity(env.DB, id, body.actor, 'role_changed', `${target.display_name || address} is now ${body.role}`,
+            { address, from: target.role, to: body.role }),
+        );
+      }
+
+      if (body.display_name !== undefined && body.display_name !== target.display_name) {
+        if (!self && !actorIsAdmin) return json({ error: 'Only the member or an admin can change the display name' }, 403, origin);
+        statements.push(
+          env.DB.prepare('UPDATE members SET display_name = ? WHERE id = ?').bind(body.display_name || null, target.id),
+          activity(env.DB, id, body.actor, 'renamed', `${target.display_name || address} is now "${body.display_name || address}"`,
+            { address, display_name: body.display_name || null }),
+        );
+      }
+
+      if (statements.length) await env.DB.batch(statements);
+      // Role-weighted DAOs: the new role changes this member's weight
+      if (body.role !== undefined && body.role !== target.role) await recountAndSettle(env.DB, id);
+      const member = await env.DB.prepare('SELECT * FROM members WHERE id = ?').bind(target.id).first();
+      return json({ success: true, member }, 200, origin);
+    }
+
+    // ── POST /api/daos/:id/delegations — Delegate your vote (DAO-wide, or one proposal with proposal_id) ──
+    // ── DELETE /api/daos/:id/delegations — Take it back ──
+    if ((request.method === 'POST' || request.method === 'DELETE') && path.match(/^\/api\/daos\/\d+\/delegations$/)) {
+      const id = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.delegator || (request.method === 'POST' && !body.delegate)) {
+        return json({ error: request.method === 'POST' ? 'Required: delegator, delegate' : 'Required: delegator' }, 400, origin);
+      }
+      if (!(await signerMatches(env.DB, id, body.delegator, auth.signer))) return signerMismatch('delegator', origin);
+      if (!(await isMember(env.DB, id, body.delegator))) return json({ error: 'Only members can delegate' }, 403, origin);
+
+      const proposalId = body.proposal_id ?? null;
+      if (proposalId !== null) {
+        const proposal = await env.DB
+          .prepare('SELECT status FROM proposals WHERE id = ? AND dao_id = ?')
+          .bind(proposalId, id).first<{ status: string }>();
+        if (!proposal) return json({ error: 'Proposal not found' }, 404, origin);
+        if (proposal.status !== 'active') return json({ error: 'Proposal is not active' }, 400, origin);
+      }
+      const scope = proposalId === null ? 'all proposals' : `proposal #${proposalId}`;
+
+      if (request.method === 'DELETE') {
+        const result = await env.DB
+          .prepare('DELETE FROM delegations WHERE dao_id = ? AND delegator = ? AND proposal_id IS ?')
+          .bind(id, body.delegator, proposalId).run();
+        if (!result.meta.changes) return json({ error: 'No delegation to revoke' }, 404, origin);
+        await activity(env.DB, id, body.delegator, 'undelegated', `Took back their vote on ${scope}`, { proposal_id: proposalId }).run();
+      } else {
+        if (body.delegate === body.delegator) return json({ error: 'Cannot delegate to yourself' }, 400, origin);
+        if (!(await isMember(env.DB, id, body.delegate))) return json({ error: 'delegate must be a member' }, 400, origin);
+        if (await createsCycle(env.DB, id, proposalId, body.delegator, body.delegate)) {
+          return json({ error: 'Delegation would create a cycle' }, 409, origin);
+        }
+        await env.DB.batch([
+          env.DB.prepare('DELETE FROM delegations WHERE dao_id = ? AND delegator = ? AND proposal_id IS ?')
+            .bind(id, body.delegator, proposalId),
+          env.DB.prepare('INSERT INTO delegations (dao_id, delegator, delegate, proposal_id) VALUES (?, ?, ?, ?)')
+            .bind(id, body.delegator, body.delegate, proposalId),
+          activity(env.DB, id, body.delegator, 'delegated', `Delegated their vote on ${scope} to ${body.delegate}`,
+            { delegate: body.delegate, proposal_id: proposalId }),
+        ]);
+      }
+
+      await recountAndSettle(env.DB, id, proposalId);
+      ctx.waitUntil(deliverDue(env.DB));
+      return json({ success: true }, request.method === 'POST' ? 201 : 200, origin);
+    }
+
+    // ── GET /api/daos/:id/delegations — Delegations (?delegate=, ?proposal_id=) ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/delegations$/)) {
+      const id = path.split('/')[3];
+      const delegate = url.searchParams.get('delegate');
+      const proposalId = url.searchParams.get('proposal_id');
+      const delegations = await env.DB
+        .prepare(
+          `SELECT * FROM delegations WHERE dao_id = ? AND (? IS NULL OR delegate = ?)
+             AND (? IS NULL OR proposal_id IS NULL OR proposal_id = ?) ORDER BY id`
+        )
+        .bind(id, delegate, delegate, proposalId, proposalId).all();
+      return json({ delegations: delegations.results }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/proposals/:pid — Proposal with its tally and every vote ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/proposals\/\d+$/)) {
+      const parts = path.split('/');
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(parts[3]).first() as any;
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      const proposal = await env.DB
+        .prepare('SELECT * FROM proposals WHERE id = ? AND dao_id = ?')
+        .bind(parts[5], dao.id).first() as any;
+      if (!proposal) return json({ error: 'Proposal not found' }, 404, origin);
+
+      const votes = await env.DB
+        .prepare('SELECT voter, vote, weight, reason, created_at, updated_at FROM votes WHERE proposal_id = ? ORDER BY created_at, id')
+        .bind(proposal.id).all();
+      // While voting is open, show what each vote carries once delegations are followed
+      const weights = proposal.status === 'active' ? (await tallyProposal(env.DB, proposal)).weights : null;
+      const list = (votes.results as any[]).map(v => weights ? { ...v, effective_weight: weights[v.voter] ?? v.weight } : v);
 
-      return json({ success: true }, 201, origin);
+      return json({ proposal, tally: tallySummary(dao, proposal), votes: list }, 200, origin);
     }
 
-    // ── POST /api/daos/:id/proposals — Create a proposal ──
+    // ── POST /api/daos/:id/proposals — Create a proposal, by hand or from a template (template_id + params) ──
     if (request.method === 'POST' && path.match(/^\/api\/daos\/\d+\/proposals$/)) {
       const id = path.split('/')[3];
-      const body = await request.json() as any;
-      if (!body.proposer || !body.title) {
-        return json({ error: 'Required: proposer, title' }, 400, origin);
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.proposer || (!body.title && body.template_id == null)) {
+        return json({ error: 'Required: proposer, title (or template_id)' }, 400, origin);
       }
+      if (!(await signerMatches(env.DB, id, body.proposer, auth.signer))) return signerMismatch('proposer', origin);
 
       const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
       if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      if (dao.status !== 'active') return json({ error: `DAO is ${dao.status} — no new proposals` }, 409, origin);
 
       // Check proposer is member
       const member = await env.DB
@@ -166,22 +871,97 @@ export default {
         .bind(id, body.proposer).first();
       if (!member) return json({ error: 'Only members can create proposals' }, 403, origin);
 
+      let template: any = null;
+      let proposal = { title: body.title, description: body.description || null, action: body };
+      if (body.template_id != null) {
+        template = await env.DB
+          .prepare('SELECT * FROM proposal_templates WHERE id = ? AND dao_id = ? AND archived_at IS NULL')
+          .bind(body.template_id, id).first();
+        if (!template) return json({ error: 'Template not found' }, 404, origin);
+        const filled = fillTemplate(template, body.params ?? {});
+        if (typeof filled === 'string') return json({ error: filled }, 400, origin);
+        proposal = filled;
+      }
+
+      const action = await validateAction(env.DB, dao, proposal.action);
+      if (typeof action === 'string') return json({ error: action }, 400, origin);
+
+      const votingHours = votingPeriod(body.voting_period_hours ?? template?.voting_period_hours, dao.voting_period_hours);
+      const created = await openProposal(
+        env.DB, dao, body.proposer, proposal.title, proposal.description, action, votingHours, template?.id ?? null,
+      );
+      ctx.waitUntil(deliverDue(env.DB));
+
+      return json({ success: true, ...created }, 201, origin);
+    }
+
+    // ── POST /api/daos/:id/templates — Save a proposal template (admin) ──
+    if (request.method === 'POST' && path.match(/^\/api\/daos\/\d+\/templates$/)) {
+      const id = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor) return json({ error: 'Required: actor, name, title' }, 400, origin);
+      if (!(await signerMatches(env.DB, id, body.actor, auth.signer))) return signerMismatch('actor', origin);
+
+      const dao = await env.DB.prepare('SELECT id FROM daos WHERE id = ?').bind(id).first();
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      if (!(await isAdmin(env.DB, id, body.actor))) return json({ error: 'Only admins can manage templates' }, 403, origin);
+
+      const input = validateTemplate(body);
+      if (typeof input === 'string') return json({ error: input }, 400, origin);
+      const taken = await env.DB
+        .prepare('SELECT id FROM proposal_templates WHERE dao_id = ? AND name = ? AND archived_at IS NULL')
+        .bind(id, input.name).first();
+      if (taken) return json({ error: `A template named "${input.name}" already exists` }, 409, origin);
+
+      const votingHours = body.voting_period_hours == null ? null : votingPeriod(body.voting_period_hours, DEFAULT_VOTING_PERIOD_HOURS);
       const result = await env.DB
         .prepare(
-          `INSERT INTO proposals (dao_id, proposer, title, description, action_type, amount_sats, recipient)
-           VALUES (?, ?, ?, ?, ?, ?, ?)`
+          `INSERT INTO proposal_templates (dao_id, name, title, description, actions, params, voting_period_hours, created_by)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
         )
-        .bind(id, body.proposer, body.title, body.description || null,
-              body.action_type || 'general', body.amount_sats || 0, body.recipient || null)
+        .bind(id, input.name, input.title, input.description, JSON.stringify(input.actions), JSON.stringify(input.params),
+              votingHours, body.actor)
         .run();
+      await activity(env.DB, id, body.actor, 'template_created', `Template "${input.name}" saved`, {
+        template_id: result.meta.last_row_id, name: input.name, params: input.params,
+      }).run();
+
+      return json({ success: true, template_id: result.meta.last_row_id, params: input.params }, 201, origin);
+    }
+
+    // ── GET /api/daos/:id/templates — A DAO's proposal templates ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/templates$/)) {
+      const id = path.split('/')[3];
+      const templates = await env.DB
+        .prepare('SELECT * FROM proposal_templates WHERE dao_id = ? AND archived_at IS NULL ORDER BY name')
+        .bind(id).all();
+      return json({ templates: templates.results.map(publicTemplate) }, 200, origin);
+    }
+
+    // ── DELETE /api/daos/:id/templates/:tid — Retire a template; proposals made from it keep their link ──
+    if (request.method === 'DELETE' && path.match(/^\/api\/daos\/\d+\/templates\/\d+$/)) {
+      const parts = path.split('/');
+      const id = parts[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+      if (!(await signerMatches(env.DB, id, body.actor, auth.signer))) return signerMismatch('actor', origin);
+
+      const template = await env.DB
+        .prepare('SELECT * FROM proposal_templates WHERE id = ? AND dao_id = ? AND archived_at IS NULL')
+        .bind(parts[5], id).first() as any;
+      if (!template) return json({ error: 'Template not found' }, 404, origin);
+      if (!(await isAdmin(env.DB, id, body.actor))) return json({ error: 'Only admins can manage templates' }, 403, origin);
 
       await env.DB.batch([
-        env.DB.prepare('UPDATE daos SET proposal_count = proposal_count + 1, updated_at = datetime(\'now\') WHERE id = ?').bind(id),
-        env.DB.prepare('INSERT INTO activity (dao_id, actor, action, details) VALUES (?, ?, ?, ?)')
-          .bind(id, body.proposer, 'proposed', body.title),
+        env.DB.prepare('UPDATE proposal_templates SET archived_at = datetime(\'now\') WHERE id = ?').bind(template.id),
+        activity(env.DB, id, body.actor, 'template_archived', `Template "${template.name}" archived`,
+          { template_id: template.id, name: template.name }),
       ]);
-
-      return json({ success: true, proposal_id: result.meta.last_row_id }, 201, origin);
+      return json({ success: true }, 200, origin);
     }
 
     // ── POST /api/daos/:id/proposals/:pid/vote — Vote on a proposal ──
@@ -189,13 +969,20 @@ export default {
       const parts = path.split('/');
       const daoId = parts[3];
       const propId = parts[5];
-      const body = await request.json() as any;
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
       if (!body.voter || !body.vote) {
-        return json({ error: 'Required: voter, vote (yes/no)' }, 400, origin);
+        return json({ error: 'Required: voter, vote (yes/no/abstain)' }, 400, origin);
+      }
+      if (!(await signerMatches(env.DB, daoId, body.voter, auth.signer))) return signerMismatch('voter', origin);
+      if (!(VOTE_CHOICES as readonly string[]).includes(body.vote)) {
+        return json({ error: 'vote must be "yes", "no" or "abstain"' }, 400, origin);
       }
-      if (!['yes', 'no'].includes(body.vote)) {
-        return json({ error: 'vote must be "yes" or "no"' }, 400, origin);
+      if (body.reason !== undefined && body.reason !== null && (typeof body.reason !== 'string' || body.reason.length > MAX_REASON_LENGTH)) {
+        return json({ error: `reason must be a string of at most ${MAX_REASON_LENGTH} characters` }, 400, origin);
       }
+      const reason = body.reason?.trim() || null;
 
       // Check voter is member
       const member = await env.DB
@@ -208,62 +995,578 @@ export default {
         .bind(propId, daoId).first() as any;
       if (!proposal) return json({ error: 'Proposal not found' }, 404, origin);
       if (proposal.status !== 'active') return json({ error: 'Proposal is not active' }, 400, origin);
+      if (votingClosed(proposal)) return json({ error: 'Voting period has ended' }, 400, origin);
 
-      // Check for duplicate vote
+      // A second vote replaces the first while the proposal is still open
       const existingVote = await env.DB
-        .prepare('SELECT id FROM votes WHERE proposal_id = ? AND voter = ?')
-        .bind(propId, body.voter).first();
-      if (existingVote) return json({ error: 'Already voted' }, 409, origin);
+        .prepare('SELECT * FROM votes WHERE proposal_id = ? AND voter = ?')
+        .bind(propId, body.voter).first() as any;
+      if (existingVote && existingVote.vote === body.vote && existingVote.reason === reason) {
+        return json({ error: `Already voted ${body.vote}` }, 409, origin);
+      }
 
-      const voteCol = body.vote === 'yes' ? 'votes_for' : 'votes_against';
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(daoId).first() as any;
+      const ownWeight = (await memberWeights(env.DB, dao)).get(body.voter) || 0;
+      if (!ownWeight) return json({ error: `You have no voting weight under the ${dao.voting_strategy} strategy` }, 403, origin);
+
+      await env.DB.batch(existingVote ? [
+        env.DB.prepare('UPDATE votes SET vote = ?, reason = ?, weight = ?, updated_at = datetime(\'now\') WHERE id = ?')
+          .bind(body.vote, reason, ownWeight, existingVote.id),
+        activity(env.DB, daoId, body.voter, 'vote_changed', existingVote.vote === body.vote
+          ? `Updated their reason for ${body.vote} on "${proposal.title}"`
+          : `Changed vote from ${existingVote.vote} to ${body.vote} on "${proposal.title}"`,
+          { proposal_id: proposal.id, vote: body.vote, previous_vote: existingVote.vote, weight: ownWeight, reason }),
+      ] : [
+        env.DB.prepare('INSERT INTO votes (proposal_id, dao_id, voter, vote, weight, reason) VALUES (?, ?, ?, ?, ?, ?)')
+          .bind(propId, daoId, body.voter, body.vote, ownWeight, reason),
+        activity(env.DB, daoId, body.voter, 'voted', `${body.vote} on "${proposal.title}"`,
+          { proposal_id: proposal.id, vote: body.vote, weight: ownWeight, reason }),
+      ]);
 
+      // Recount with delegations: the voter carries everyone whose vote flows to them
+      const tally = await tallyProposal(env.DB, proposal);
+      const weight = tally.weights[body.voter] || ownWeight;
       await env.DB.batch([
-        env.DB.prepare('INSERT INTO votes (proposal_id, dao_id, voter, vote) VALUES (?, ?, ?, ?)')
-          .bind(propId, daoId, body.voter, body.vote),
-        env.DB.prepare(`UPDATE proposals SET ${voteCol} = ${voteCol} + 1, updated_at = datetime('now') WHERE id = ?`)
-          .bind(propId),
-        env.DB.prepare('INSERT INTO activity (dao_id, actor, action, details) VALUES (?, ?, ?, ?)')
-          .bind(daoId, body.voter, 'voted', `${body.vote} on "${proposal.title}"`),
+        tallyStatement(env.DB, proposal.id, tally),
+        webhookEvent(env.DB, daoId, 'voted', {
+          proposal_id: Number(propId), title: proposal.title, voter: body.voter, vote: body.vote, weight, reason,
+          ...(existingVote ? { previous_vote: existingVote.vote } : {}),
+        }),
       ]);
 
-      // Check if proposal passed
-      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(daoId).first() as any;
-      const updatedProp = await env.DB
-        .prepare('SELECT * FROM proposals WHERE id = ?').bind(propId).first() as any;
-      const totalVotes = updatedProp.votes_for + updatedProp.votes_against;
-      const approvalPct = totalVotes > 0 ? (updatedProp.votes_for / totalVotes) * 100 : 0;
+      // Check if proposal passed; failing ones stay open until the window closes
+      const outcome = await settleProposal(env.DB, dao, withTally(proposal, tally));
+      ctx.waitUntil(deliverDue(env.DB));
 
-      if (totalVotes >= Math.ceil(dao.member_count / 2) && approvalPct >= dao.approval_threshold) {
-        await env.DB.batch([
-          env.DB.prepare('UPDATE proposals SET status = ?, executed_at = datetime(\'now\'), updated_at = datetime(\'now\') WHERE id = ?')
-            .bind('passed', propId),
-          env.DB.prepare('INSERT INTO activity (dao_id, actor, action, details) VALUES (?, ?, ?, ?)')
-            .bind(daoId, 'system', 'passed', `"${proposal.title}" passed with ${approvalPct.toFixed(0)}% approval`),
-        ]);
+      return json({
+        success: true, changed: !!existingVote, weight,
+        votes_for: tally.votes_for, votes_against: tally.votes_against, votes_abstain: tally.votes_abstain,
+        status: outcome.status, ...(outcome.error ? { execution_error: outcome.error } : {}),
+      }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/proposals/:pid/comments — Discussion, top-level threads paginated ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/proposals\/\d+\/comments$/)) {
+      const parts = path.split('/');
+      const proposal = await env.DB
+        .prepare('SELECT id FROM proposals WHERE id = ? AND dao_id = ?')
+        .bind(parts[5], parts[3]).first() as any;
+      if (!proposal) return json({ error: 'Proposal not found' }, 404, origin);
+
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100);
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+      const threads = await env.DB
+        .prepare('SELECT id FROM comments WHERE proposal_id = ? AND parent_id IS NULL ORDER BY created_at, id LIMIT ? OFFSET ?')
+        .bind(proposal.id, limit, offset).all<{ id: number }>();
+      const ids = threads.results.map(t => t.id);
+      const comments = ids.length ? await env.DB
+        .prepare(
+          `SELECT * FROM comments WHERE id IN (${ids.map(() => '?').join(', ')}) OR thread_id IN (${ids.map(() => '?').join(', ')})
+           ORDER BY created_at, id`
+        )
+        .bind(...ids, ...ids).all() : { results: [] };
+      const count = await env.DB
+        .prepare('SELECT COUNT(*) as total FROM comments WHERE proposal_id = ? AND parent_id IS NULL')
+        .bind(proposal.id).first<{ total: number }>();
+
+      return json({
+        comments: nestComments(comments.results as any[]),
+        pagination: { total: count?.total || 0, limit, offset, hasMore: offset + limit < (count?.total || 0) }
+      }, 200, origin);
+    }
+
+    // ── POST /api/daos/:id/proposals/:pid/comments — Comment on a proposal, or reply with parent_id ──
+    if (request.method === 'POST' && path.match(/^\/api\/daos\/\d+\/proposals\/\d+\/comments$/)) {
+      const parts = path.split('/');
+      const daoId = parts[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.author || !body.body) return json({ error: 'Required: author, body' }, 400, origin);
+      if (!(await signerMatches(env.DB, daoId, body.author, auth.signer))) return signerMismatch('author', origin);
+      if (!validBody(body.body)) return json({ error: `body must be a string of at most ${MAX_COMMENT_LENGTH} characters` }, 400, origin);
+      if (!(await isMember(env.DB, daoId, body.author))) return json({ error: 'Only members can comment' }, 403, origin);
+
+      const proposal = await env.DB
+        .prepare('SELECT * FROM proposals WHERE id = ? AND dao_id = ?')
+        .bind(parts[5], daoId).first() as any;
+      if (!proposal) return json({ error: 'Proposal not found' }, 404, origin);
+
+      let parent: any = null;
+      if (body.parent_id !== undefined && body.parent_id !== null) {
+        parent = await env.DB
+          .prepare('SELECT * FROM comments WHERE id = ? AND proposal_id = ?')
+          .bind(body.parent_id, proposal.id).first();
+        if (!parent) return json({ error: 'parent_id is not a comment on this proposal' }, 400, origin);
+        if (parent.deleted_at) return json({ error: 'Cannot reply to a deleted comment' }, 409, origin);
       }
 
-      return json({ success: true, votes_for: updatedProp.votes_for, votes_against: updatedProp.votes_against }, 200, origin);
+      const [inserted] = await env.DB.batch(postComment(env.DB, proposal, body.author, body.body.trim(), parent));
+      return json({ success: true, comment_id: inserted.meta.last_row_id }, 201, origin);
     }
 
-    // ── POST /api/daos/:id/fund — Fund DAO treasury ──
+    // ── PATCH /api/comments/:cid — Edit your comment (within the edit window) ──
+    // ── DELETE /api/comments/:cid — Soft-delete a comment (admin) ──
+    if ((request.method === 'PATCH' || request.method === 'DELETE') && path.match(/^\/api\/comments\/\d+$/)) {
+      const cid = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+
+      const comment = await env.DB.prepare('SELECT * FROM comments WHERE id = ?').bind(cid).first() as any;
+      if (!comment) return json({ error: 'Comment not found' }, 404, origin);
+      if (comment.deleted_at) return json({ error: 'Comment has been deleted' }, 409, origin);
+
+      if (request.method === 'DELETE') {
+        if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+        if (!(await signerMatches(env.DB, comment.dao_id, body.actor, auth.signer))) return signerMismatch('actor', origin);
+        if (!(await isAdmin(env.DB, comment.dao_id, body.actor))) return json({ error: 'Only admins can delete comments' }, 403, origin);
+        // Only the request whose soft-delete lands adjusts the count and logs it
+        const [softDelete, ...effects] = deleteComment(env.DB, comment, body.actor);
+        const deleted = await softDelete.run();
+        if (!deleted.meta.changes) return json({ error: 'Comment has been deleted' }, 409, origin);
+        await env.DB.batch(effects);
+        return json({ success: true }, 200, origin);
+      }
+
+      if (!body.author || !body.body) return json({ error: 'Required: author, body' }, 400, origin);
+      if (!(await signerMatches(env.DB, comment.dao_id, body.author, auth.signer))) return signerMismatch('author', origin);
+      if (body.author !== comment.author) return json({ error: 'Only the author can edit a comment' }, 403, origin);
+      if (!validBody(body.body)) return json({ error: `body must be a string of at most ${MAX_COMMENT_LENGTH} characters` }, 400, origin);
+      if (!editable(comment)) return json({ error: `Comments can only be edited within ${EDIT_WINDOW_MINUTES} minutes` }, 409, origin);
+
+      await env.DB
+        .prepare('UPDATE comments SET body = ?, edited_at = datetime(\'now\') WHERE id = ?')
+        .bind(body.body.trim(), cid).run();
+      return json({ success: true }, 200, origin);
+    }
+
+    // ── POST /api/daos/:id/fund — Fund DAO treasury (verified on chain) ──
     if (request.method === 'POST' && path.match(/^\/api\/daos\/\d+\/fund$/)) {
       const id = path.split('/')[3];
-      const body = await request.json() as any;
-      if (!body.funder || !body.amount_sats || body.amount_sats < 1) {
-        return json({ error: 'Required: funder, amount_sats (positive)' }, 400, origin);
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.funder || !Number.isInteger(body.amount_sats) || body.amount_sats < 1 || !body.tx_id) {
+        return json({ error: 'Required: funder, amount_sats (positive integer), tx_id' }, 400, origin);
       }
+      if (!(await signerMatches(env.DB, id, body.funder, auth.signer))) return signerMismatch('funder', origin);
 
-      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first();
+      const txId = normalizeTxId(String(body.tx_id));
+      if (!txId) return json({ error: 'tx_id must be a 32-byte hex transaction id' }, 400, origin);
+
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
       if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+      if (dao.status !== 'active') return json({ error: `DAO is ${dao.status} — deposits are closed` }, 409, origin);
+      if (!dao.treasury_address) return json({ error: 'DAO has no treasury_address to verify deposits against' }, 400, origin);
 
-      await env.DB.batch([
-        env.DB.prepare('UPDATE daos SET treasury_sats = treasury_sats + ?, updated_at = datetime(\'now\') WHERE id = ?')
-          .bind(body.amount_sats, id),
-        env.DB.prepare('INSERT INTO activity (dao_id, actor, action, details) VALUES (?, ?, ?, ?)')
-          .bind(id, body.funder, 'funded', `${body.amount_sats} sats deposited${body.tx_id ? ' (tx: ' + body.tx_id + ')' : ''}`),
-      ]);
+      // A tx id is claimed across every DAO while its deposit is pending or confirmed
+      const used = await env.DB.prepare('SELECT id FROM deposits WHERE tx_id = ? AND status != ?').bind(txId, 'rejected').first();
+      if (used) return json({ error: 'tx_id already used for a deposit' }, 409, origin);
 
-      return json({ success: true }, 200, origin);
+      // The partial unique index settles a race with a concurrent claim
+      const result = await env.DB
+        .prepare('INSERT OR IGNORE INTO deposits (dao_id, funder, amount_sats, tx_id) VALUES (?, ?, ?, ?)')
+        .bind(id, body.funder, body.amount_sats, txId)
+        .run();
+      if (!result.meta.changes) return json({ error: 'tx_id already used for a deposit' }, 409, origin);
+      const deposit = await env.DB
+        .prepare('SELECT * FROM deposits WHERE id = ?').bind(result.meta.last_row_id).first();
+
+      const check = await settleDeposit(env.DB, chainIndexer(env), deposit, dao, minConfirmations(env));
+      ctx.waitUntil(deliverDue(env.DB));
+      const response = { deposit_id: result.meta.last_row_id, tx_id: txId, ...check };
+
+      if (check.status === 'rejected') return json({ error: `Deposit rejected: ${check.reason}`, ...response }, 400, origin);
+      return json({ success: true, ...response }, check.status === 'confirmed' ? 200 : 202, origin);
+    }
+
+    // ── GET /api/daos/:id/deposits — Deposits and their verification state ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/deposits$/)) {
+      const id = path.split('/')[3];
+      const status = url.searchParams.get('status');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+
+      const deposits = await env.DB
+        .prepare('SELECT * FROM deposits WHERE dao_id = ? AND (? IS NULL OR status = ?) ORDER BY id DESC LIMIT ? OFFSET ?')
+        .bind(id, status, status, limit, offset)
+        .all();
+
+      return json({ deposits: deposits.results }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/treasury — Ledger balance + paginated entries ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/treasury$/)) {
+      const id = path.split('/')[3];
+      const dao = await env.DB.prepare('SELECT * FROM daos WHERE id = ?').bind(id).first() as any;
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+
+      const type = url.searchParams.get('type');
+      if (type && !(ENTRY_TYPES as readonly string[]).includes(type)) {
+        return json({ error: `type must be one of: ${ENTRY_TYPES.join(', ')}` }, 400, origin);
+      }
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+
+      const balance = await ledgerBalance(env.DB, id);
+      const totals = await ledgerTotals(env.DB, id);
+      const entries = await ledgerEntries(env.DB, id, limit, offset, type);
+      const count = await env.DB
+        .prepare('SELECT COUNT(*) as total FROM treasury_entries WHERE dao_id = ? AND (? IS NULL OR entry_type = ?)')
+        .bind(id, type, type)
+        .first<{ total: number }>();
+
+      return json({
+        dao_id: dao.id,
+        balance_sats: balance,
+        escrow_sats: await escrowBalance(env.DB, id),
+        cached_treasury_sats: dao.treasury_sats,
+        in_sync: balance === dao.treasury_sats,
+        totals,
+        entries,
+        pagination: { total: count?.total || 0, limit, offset, hasMore: offset + limit < (count?.total || 0) }
+      }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/treasury/contributors — Per-member contribution totals ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/treasury\/contributors$/)) {
+      const id = path.split('/')[3];
+      const dao = await env.DB.prepare('SELECT id FROM daos WHERE id = ?').bind(id).first();
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+
+      return json({ contributors: await contributions(env.DB, id) }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/treasury.csv — Ledger export for bookkeeping ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/treasury\.csv$/)) {
+      const id = path.split('/')[3];
+      const dao = await env.DB.prepare('SELECT name FROM daos WHERE id = ?').bind(id).first<{ name: string }>();
+      if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+
+      const entries = (await ledgerEntries(env.DB, id, -1, 0)).reverse();
+      return new Response(entriesToCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="dao-${id}-treasury.csv"`,
+          ...cors(origin),
+        },
+      });
+    }
+
+    // ── GET /api/bounties — Bounties across all DAOs (?status=open by default) ──
+    // ── GET /api/daos/:id/bounties — One DAO's bounties (?status=) ──
+    const daoBounties = path.match(/^\/api\/daos\/(\d+)\/bounties$/);
+    if (request.method === 'GET' && (path === '/api/bounties' || daoBounties)) {
+      const daoId = daoBounties?.[1] ?? null;
+      const status = url.searchParams.get('status') || (daoId ? null : 'open');
+      if (status && !(BOUNTY_STATUSES as readonly string[]).includes(status)) {
+        return json({ error: `status must be one of: ${BOUNTY_STATUSES.join(', ')}` }, 400, origin);
+      }
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+
+      const bounties = await env.DB
+        .prepare(
+          `SELECT b.*, daos.name as dao_name,
+             (SELECT COUNT(*) FROM bounty_applications a WHERE a.bounty_id = b.id) as application_count
+           FROM bounties b JOIN daos ON daos.id = b.dao_id
+           WHERE (? IS NULL OR b.dao_id = ?) AND (? IS NULL OR b.status = ?)
+           ORDER BY b.created_at DESC LIMIT ? OFFSET ?`
+        )
+        .bind(daoId, daoId, status, status, limit, offset)
+        .all();
+      const count = await env.DB
+        .prepare('SELECT COUNT(*) as total FROM bounties WHERE (? IS NULL OR dao_id = ?) AND (? IS NULL OR status = ?)')
+        .bind(daoId, daoId, status, status)
+        .first<{ total: number }>();
+
+      return json({
+        bounties: bounties.results,
+        pagination: { total: count?.total || 0, limit, offset, hasMore: offset + limit < (count?.total || 0) }
+      }, 200, origin);
+    }
+
+    // ── GET /api/bounties/:bid — Bounty with its applications ──
+    if (request.method === 'GET' && path.match(/^\/api\/bounties\/\d+$/)) {
+      const bid = path.split('/')[3];
+      const bounty = await env.DB
+        .prepare('SELECT b.*, daos.name as dao_name FROM bounties b JOIN daos ON daos.id = b.dao_id WHERE b.id = ?')
+        .bind(bid).first();
+      if (!bounty) return json({ error: 'Bounty not found' }, 404, origin);
+      const applications = await env.DB
+        .prepare('SELECT * FROM bounty_applications WHERE bounty_id = ? ORDER BY id')
+        .bind(bid).all();
+      return json({ bounty, applications: applications.results }, 200, origin);
+    }
+
+    // ── POST /api/bounties/:bid/apply|assign|submit|review|resolve|cancel — Move a bounty along ──
+    const bountyRoute = path.match(/^\/api\/bounties\/(\d+)\/(apply|assign|submit|review|resolve|cancel)$/);
+    if (request.method === 'POST' && bountyRoute) {
+      const [, bid, step] = bountyRoute;
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+
+      const bounty = await env.DB.prepare('SELECT * FROM bounties WHERE id = ?').bind(bid).first() as any;
+      if (!bounty) return json({ error: 'Bounty not found' }, 404, origin);
+      const daoId = bounty.dao_id;
+      const wrongState = (...allowed: BountyStatus[]) => !allowed.includes(bounty.status)
+        ? json({ error: `Bounty is ${bounty.status}, expected ${allowed.join(' or ')}` }, 409, origin)
+        : null;
+
+      if (step === 'apply') {
+        if (!body.applicant) return json({ error: 'Required: applicant' }, 400, origin);
+        if (!(await signerMatches(env.DB, daoId, body.applicant, auth.signer))) return signerMismatch('applicant', origin);
+        const blocked = wrongState('open');
+        if (blocked) return blocked;
+
+        const applied = await env.DB
+          .prepare('SELECT id FROM bounty_applications WHERE bounty_id = ? AND applicant = ?')
+          .bind(bid, body.applicant).first();
+        if (applied) return json({ error: 'Already applied' }, 409, origin);
+
+        const result = await env.DB
+          .prepare('INSERT INTO bounty_applications (bounty_id, dao_id, applicant, pitch) VALUES (?, ?, ?, ?)')
+          .bind(bid, daoId, body.applicant, body.pitch || null).run();
+        await activity(env.DB, daoId, body.applicant, 'bounty_applied', `Applied for bounty "${bounty.title}"`,
+          { bounty_id: bounty.id, application_id: result.meta.last_row_id }).run();
+        return json({ success: true, application_id: result.meta.last_row_id }, 201, origin);
+      }
+
+      if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+      if (!(await signerMatches(env.DB, daoId, body.actor, auth.signer))) return signerMismatch('actor', origin);
+      const actorIsAdmin = await isAdmin(env.DB, daoId, body.actor);
+      let statements: D1PreparedStatement[];
+
+      switch (step) {
+        case 'assign': {
+          if (!actorIsAdmin) return json({ error: 'Only admins can assign bounties' }, 403, origin);
+          const blocked = wrongState('open');
+          if (blocked) return blocked;
+          if (!body.applicant) return json({ error: 'Required: applicant' }, 400, origin);
+          const application = await env.DB
+            .prepare('SELECT id FROM bounty_applications WHERE bounty_id = ? AND applicant = ? AND status = ?')
+            .bind(bid, body.applicant, 'pending').first();
+          if (!application) return json({ error: 'applicant has no pending application for this bounty' }, 400, origin);
+
+          statements = [
+            env.DB.prepare('UPDATE bounties SET status = ?, assignee = ?, assigned_by = ?, updated_at = datetime(\'now\') WHERE id = ? AND status = ?')
+              .bind('assigned', body.applicant, body.actor, bid, bounty.status),
+            env.DB.prepare('UPDATE bounty_applications SET status = CASE WHEN applicant = ? THEN \'accepted\' ELSE \'rejected\' END WHERE bounty_id = ? AND status = ?')
+              .bind(body.applicant, bid, 'pending'),
+            activity(env.DB, daoId, body.actor, 'bounty_assigned', `Bounty "${bounty.title}" assigned to ${body.applicant}`,
+              { bounty_id: bounty.id, assignee: body.applicant }),
+          ];
+          break;
+        }
+
+        case 'submit': {
+          if (body.actor !== bounty.assignee) return json({ error: 'Only the assignee can submit work' }, 403, origin);
+          const blocked = wrongState('assigned');
+          if (blocked) return blocked;
+          if (!body.deliverable) return json({ error: 'Required: deliverable' }, 400, origin);
+
+          statements = [
+            env.DB.prepare('UPDATE bounties SET status = ?, deliverable = ?, submitted_at = datetime(\'now\'), updated_at = datetime(\'now\') WHERE id = ? AND status = ?')
+              .bind('submitted', body.deliverable, bid, bounty.status),
+            activity(env.DB, daoId, body.actor, 'bounty_submitted', `Work submitted for bounty "${bounty.title}"`, { bounty_id: bounty.id }),
+          ];
+          break;
+        }
+
+        case 'review': {
+          if (!actorIsAdmin) return json({ error: 'Only admins can review bounties' }, 403, origin);
+          if (body.actor === bounty.assignee) return json({ error: 'The assignee cannot review their own work' }, 403, origin);
+          const blocked = wrongState('submitted');
+          if (blocked) return blocked;
+          const note = body.note || null;
+
+          if (body.outcome === 'approve') {
+            statements = payBounty(env.DB, bounty, body.actor, note);
+          } else if (body.outcome === 'revise') {
+            statements = [
+              env.DB.prepare('UPDATE bounties SET status = ?, reviewed_by = ?, review_note = ?, updated_at = datetime(\'now\') WHERE id = ? AND status = ?')
+                .bind('assigned', body.actor, note, bid, bounty.status),
+              activity(env.DB, daoId, body.actor, 'bounty_revision', `Changes requested on bounty "${bounty.title}"${note ? `: ${note}` : ''}`,
+                { bounty_id: bounty.id, note }),
+            ];
+          } else if (body.outcome === 'dispute') {
+            statements = [
+              env.DB.prepare('UPDATE bounties SET status = ?, reviewed_by = ?, review_note = ?, updated_at = datetime(\'now\') WHERE id = ? AND status = ?')
+                .bind('disputed', body.actor, note, bid, bounty.status),
+              activity(env.DB, daoId, body.actor, 'bounty_disputed', `Bounty "${bounty.title}" disputed${note ? `: ${note}` : ''}`,
+                { bounty_id: bounty.id, note }),
+            ];
+          } else {
+            return json({ error: 'outcome must be "approve", "revise" or "dispute"' }, 400, origin);
+          }
+          break;
+        }
+
+        case 'resolve': {
+          if (!actorIsAdmin) return json({ error: 'Only admins can resolve disputes' }, 403, origin);
+          if (body.actor === bounty.assignee) return json({ error: 'The assignee cannot resolve their own dispute' }, 403, origin);
+          const blocked = wrongState('disputed');
+          if (blocked) return blocked;
+
+          if (body.outcome === 'pay') statements = payBounty(env.DB, bounty, body.actor, body.note || bounty.review_note);
+          else if (body.outcome === 'cancel') statements = cancelBounty(env.DB, bounty, body.actor, body.note || 'dispute resolved against the assignee');
+          else return json({ error: 'outcome must be "pay" or "cancel"' }, 400, origin);
+          break;
+        }
+
+        default: {
+          if (!actorIsAdmin) return json({ error: 'Only admins can cancel bounties' }, 403, origin);
+          const blocked = wrongState('open', 'assigned');
+          if (blocked) return blocked;
+          statements = cancelBounty(env.DB, bounty, body.actor, body.reason || 'cancelled by an admin');
+        }
+      }
+
+      // Claim the transition before anything else is written: a request that lost a race changes nothing
+      const [transition, ...effects] = statements;
+      const moved = await transition.run();
+      if (!moved.meta.changes) return json({ error: 'Bounty changed while this request was processed — reload and retry' }, 409, origin);
+      await env.DB.batch(effects);
+      const updated = await env.DB.prepare('SELECT * FROM bounties WHERE id = ?').bind(bid).first();
+      return json({ success: true, bounty: updated }, 200, origin);
+    }
+
+    // ── GET /api/daos/:id/streams — A DAO's payment streams (?status=) ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/streams$/)) {
+      const id = path.split('/')[3];
+      const status = url.searchParams.get('status');
+      const streams = await env.DB
+        .prepare('SELECT * FROM streams WHERE dao_id = ? AND (? IS NULL OR status = ?) ORDER BY id DESC LIMIT 100')
+        .bind(id, status, status).all();
+      return json({ streams: streams.results }, 200, origin);
+    }
+
+    // ── GET /api/streams/:sid — Stream with its installments ──
+    if (request.method === 'GET' && path.match(/^\/api\/streams\/\d+$/)) {
+      const sid = path.split('/')[3];
+      const stream = await env.DB.prepare('SELECT * FROM streams WHERE id = ?').bind(sid).first() as any;
+      if (!stream) return json({ error: 'Stream not found' }, 404, origin);
+      const payments = await env.DB
+        .prepare('SELECT * FROM treasury_entries WHERE stream_id = ? ORDER BY id')
+        .bind(stream.id).all();
+      return json({ stream, payments: payments.results }, 200, origin);
+    }
+
+    // ── POST /api/daos/:id/webhooks, POST /api/webhooks — Subscribe to DAO or factory-wide events ──
+    if (request.method === 'POST' && (path === '/api/webhooks' || path.match(/^\/api\/daos\/\d+\/webhooks$/))) {
+      const daoId = path === '/api/webhooks' ? null : path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor || !body.url) return json({ error: 'Required: actor, url' }, 400, origin);
+      if (!validWebhookUrl(body.url)) return json({ error: 'url must be an https URL' }, 400, origin);
+      const events = parseEvents(body.events);
+      if (typeof events === 'string') return json({ error: events }, 400, origin);
+
+      if (daoId) {
+        if (!(await signerMatches(env.DB, daoId, body.actor, auth.signer))) return signerMismatch('actor', origin);
+        const dao = await env.DB.prepare('SELECT id FROM daos WHERE id = ?').bind(daoId).first();
+        if (!dao) return json({ error: 'DAO not found' }, 404, origin);
+        if (!(await isAdmin(env.DB, daoId, body.actor))) return json({ error: 'Only admins can manage webhooks' }, 403, origin);
+      } else if (auth.signer !== body.actor) {
+        return signerMismatch('actor', origin);
+      }
+
+      const secret = newSecret();
+      const result = await env.DB
+        .prepare('INSERT INTO webhook_subscriptions (dao_id, owner, url, secret, events) VALUES (?, ?, ?, ?, ?)')
+        .bind(daoId, body.actor, body.url, secret, events.join(','))
+        .run();
+
+      return json({ success: true, webhook_id: result.meta.last_row_id, secret, events }, 201, origin);
+    }
+
+    // ── GET /api/daos/:id/webhooks — List a DAO's subscriptions (signed, admin, ?actor=) ──
+    if (request.method === 'GET' && path.match(/^\/api\/daos\/\d+\/webhooks$/)) {
+      const id = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const denied = await webhookAccessError(env, { dao_id: id, owner: null }, url.searchParams.get('actor'), auth.signer, origin);
+      if (denied) return denied;
+
+      const subs = await env.DB
+        .prepare('SELECT * FROM webhook_subscriptions WHERE dao_id = ? ORDER BY id')
+        .bind(id).all();
+
+      return json({ webhooks: subs.results.map(publicSubscription) }, 200, origin);
+    }
+
+    // ── GET /api/webhooks/:wid/deliveries — Delivery log (signed, same access as managing it, ?actor=) ──
+    if (request.method === 'GET' && path.match(/^\/api\/webhooks\/\d+\/deliveries$/)) {
+      const wid = path.split('/')[3];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const sub = await env.DB.prepare('SELECT dao_id, owner FROM webhook_subscriptions WHERE id = ?').bind(wid).first() as any;
+      if (!sub) return json({ error: 'Webhook not found' }, 404, origin);
+      const denied = await webhookAccessError(env, sub, url.searchParams.get('actor'), auth.signer, origin);
+      if (denied) return denied;
+      const status = url.searchParams.get('status');
+      const limit = Math.min(parseInt(url.searchParams.get('limit') || '50'), 200);
+      const offset = parseInt(url.searchParams.get('offset') || '0');
+
+      const deliveries = await env.DB
+        .prepare(
+          `SELECT * FROM webhook_deliveries WHERE subscription_id = ? AND (? IS NULL OR status = ?)
+           ORDER BY id DESC LIMIT ? OFFSET ?`
+        )
+        .bind(wid, status, status, limit, offset)
+        .all();
+
+      return json({
+        deliveries: deliveries.results.map((d: any) => ({ ...d, payload: JSON.parse(d.payload) })),
+      }, 200, origin);
+    }
+
+    // ── PATCH / DELETE /api/webhooks/:wid, POST /api/webhooks/:wid/replay[/:did] — Manage a subscription ──
+    const webhookRoute = path.match(/^\/api\/webhooks\/(\d+)(\/replay(?:\/(\d+))?)?$/);
+    if (webhookRoute && (request.method === 'PATCH' || request.method === 'DELETE' || (request.method === 'POST' && webhookRoute[2]))) {
+      const wid = webhookRoute[1];
+      const auth = await authenticate(request, env, path, origin);
+      if (auth instanceof Response) return auth;
+      const body = auth.body;
+      if (!body.actor) return json({ error: 'Required: actor' }, 400, origin);
+
+      const sub = await env.DB.prepare('SELECT * FROM webhook_subscriptions WHERE id = ?').bind(wid).first() as any;
+      if (!sub) return json({ error: 'Webhook not found' }, 404, origin);
+      const denied = await webhookAccessError(env, sub, body.actor, auth.signer, origin);
+      if (denied) return denied;
+
+      if (request.method === 'POST') {
+        const replayed = await replayDeliveries(env.DB, wid, webhookRoute[3]);
+        ctx.waitUntil(deliverDue(env.DB));
+        return json({ success: true, replayed }, 200, origin);
+      }
+
+      if (request.method === 'DELETE') {
+        await env.DB.batch([
+          env.DB.prepare('DELETE FROM webhook_deliveries WHERE subscription_id = ?').bind(wid),
+          env.DB.prepare('DELETE FROM webhook_subscriptions WHERE id = ?').bind(wid),
+        ]);
+        return json({ success: true }, 200, origin);
+      }
+
+      if (body.url !== undefined && !validWebhookUrl(body.url)) return json({ error: 'url must be an https URL' }, 400, origin);
+      const events = body.events === undefined ? null : parseEvents(body.events);
+      if (typeof events === 'string') return json({ error: events }, 400, origin);
+
+      await env.DB
+        .prepare(
+          `UPDATE webhook_subscriptions SET url = COALESCE(?, url), events = COALESCE(?, events),
+             active = COALESCE(?, active), updated_at = datetime('now') WHERE id = ?`
+        )
+        .bind(body.url ?? null, events ? events.join(',') : null,
+              body.active === undefined ? null : (body.active ? 1 : 0), wid)
+        .run();
+
+      const updated = await env.DB.prepare('SELECT * FROM webhook_subscriptions WHERE id = ?').bind(wid).first();
+      return json({ success: true, webhook: publicSubscription(updated) }, 200, origin);
     }
 
     // ── GET /api/stats — Factory statistics ──
@@ -289,6 +1592,18 @@ export default {
       }, 200, origin);
     }
 
+    // ── GET /api/analytics, GET /api/daos/:id/analytics — Governance metrics (?bucket=day|week|month&from=&to=&top=) ──
+    const analyticsRoute = path.match(/^\/api(?:\/daos\/(\d+))?\/analytics$/);
+    if (request.method === 'GET' && analyticsRoute) {
+      const daoId = analyticsRoute[1] ?? null;
+      if (daoId && !(await env.DB.prepare('SELECT id FROM daos WHERE id = ?').bind(daoId).first())) {
+        return json({ error: 'DAO not found' }, 404, origin);
+      }
+      const query = parseAnalyticsQuery(url.searchParams, daoId);
+      if (typeof query === 'string') return json({ error: query }, 400, origin);
+      return json(await governanceAnalytics(env.DB, query), 200, origin);
+    }
+
     // ── GET / — Frontend ──
     if (request.method === 'GET' && (path === '/' || path === '/index.html')) {
       return new Response(FRONTEND_HTML, {
@@ -298,6 +1613,23 @@ export default {
 
     return json({ error: 'Not found' }, 404, origin);
   },
+
+  // ── Cron — close expired proposals, re-check pending deposits, purge spent nonces, pay streams, seal activity, roll up analytics, retry webhooks ──
+  async scheduled(_event: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    // Streams pay after proposals and deposits settle, so installments see the final balance.
+    // Each step runs even if an earlier one failed.
+    ctx.waitUntil((async () => {
+      await Promise.all([
+        cronStep('proposals', () => closeExpiredProposals(env.DB)),
+        cronStep('deposits', () => recheckPendingDeposits(env.DB, chainIndexer(env), minConfirmations(env))),
+        cronStep('nonces', () => purgeNonces(env.DB)),
+      ]);
+      await cronStep('streams', () => payDueStreams(env.DB));
+      await cronStep('audit', () => sealActivity(env.DB));
+      await cronStep('analytics', () => rollupAnalytics(env.DB));
+      await cronStep('webhooks', () => deliverDue(env.DB, 100));
+    })());
+  },
 };
 
 // ── Embedded Frontend ──
@@ -354,10 +1686,10 @@ const FRONTEND_HTML = `<!DOCTYPE html>
     padding: 24px; width: 90%; max-width: 480px; }
   .form-box h2 { color: var(--accent); margin-bottom: 16px; font-size: 18px; }
   .form-box label { display: block; color: var(--dim); font-size: 11px; margin-bottom: 4px; margin-top: 12px; }
-  .form-box input, .form-box textarea { width: 100%; background: var(--bg); border: 1px solid var(--border);
+  .form-box input, .form-box textarea, .form-box select { width: 100%; background: var(--bg); border: 1px solid var(--border);
     color: var(--text); padding: 8px 12px; border-radius: 6px; font-family: inherit; font-size: 13px; }
   .form-box textarea { min-height: 60px; resize: vertical; }
-  .form-box input:focus, .form-box textarea:focus { border-color: var(--accent); outline: none; }
+  .form-box input:focus, .form-box textarea:focus, .form-box select:focus { border-color: var(--accent); outline: none; }
   .form-actions { display: flex; gap: 8px; margin-top: 16px; }
   .btn { padding: 8px 20px; border-radius: 6px; cursor: pointer; font-family: inherit; font-size: 13px; border: 1px solid var(--border); }
   .btn-primary { background: var(--accent); color: #000; border-color: var(--accent); font-weight: bold; }
@@ -373,6 +1705,29 @@ const FRONTEND_HTML = `<!DOCTYPE html>
     font-size: 11px; color: var(--dim); }
   a { color: var(--accent); text-decoration: none; }
   a:hover { text-decoration: underline; }
+  .wallet-bar { display: flex; justify-content: flex-end; align-items: center; gap: 8px; margin-bottom: 16px; font-size: 11px; color: var(--dim); }
+  .toolbar { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; margin-top: 12px; }
+  .btn-small { padding: 4px 12px; font-size: 11px; }
+  .btn:disabled { opacity: 0.5; cursor: wait; }
+  .btn-yes { background: #1b5e20; color: var(--green); border-color: var(--green); }
+  .btn-no { background: #ef535022; color: var(--red); border-color: var(--red); }
+  .card.focused { border-color: var(--accent); }
+  .tally { margin-top: 8px; }
+  .tally-bar { position: relative; display: flex; height: 6px; margin-top: 6px; background: var(--bg);
+    border: 1px solid var(--border); border-radius: 3px; overflow: hidden; }
+  .tally-bar .yes { background: var(--green); transition: width 0.4s; }
+  .tally-bar .no { background: var(--red); transition: width 0.4s; }
+  .tally-bar .abstain { background: var(--dim); transition: width 0.4s; }
+  .tally-bar .quorum { position: absolute; top: 0; bottom: 0; width: 2px; background: var(--yellow); }
+  .vote-actions { display: flex; gap: 6px; margin-top: 10px; }
+  .form-note { color: var(--dim); font-size: 11px; line-height: 1.5; }
+  .form-error { color: var(--red); font-size: 12px; margin-top: 8px; }
+  .mono-box { background: var(--bg); border: 1px solid var(--border); border-radius: 6px; padding: 8px;
+    font-size: 11px; word-break: break-all; margin-top: 8px; user-select: all; }
+  .toast { display: none; position: fixed; bottom: 24px; left: 50%; transform: translateX(-50%); background: var(--surface);
+    border: 1px solid var(--accent); border-radius: 6px; padding: 10px 16px; font-size: 12px; z-index: 150; max-width: 90%; }
+  .toast.open { display: block; }
+  .toast.error { border-color: var(--red); color: var(--red); }
   @media (max-width: 600px) {
     .stats { grid-template-columns: repeat(2, 1fr); gap: 6px; }
     .stat .value { font-size: 18px; }
@@ -388,10 +1743,12 @@ const FRONTEND_HTML = `<!DOCTYPE html>
 <a class="skip-link" href="#main-content">Skip to content</a>
 <div class="container">
   <header role="banner">
-    <h1>DAO Factory</h1>
+    <h1><a href="#/" style="color:inherit;">DAO Factory</a></h1>
     <p class="tagline">Agents form orgs, hire each other, pool sBTC &mdash; in 3 clicks</p>
   </header>
 
+  <div class="wallet-bar" id="wallet-bar"></div>
+
   <main id="main-content">
   <div class="stats" id="stats" role="region" aria-label="DAO statistics">
     <div class="stat"><div class="value" id="s-daos">-</div><div class="label">DAOs</div></div>
@@ -417,6 +1774,8 @@ const FRONTEND_HTML = `<!DOCTYPE html>
   </footer>
 </div>
 
+<div class="toast" id="toast" role="status" aria-live="assertive"></div>
+
 <!-- Create DAO Form -->
 <div class="form-overlay" id="create-form" role="dialog" aria-modal="true" aria-labelledby="form-heading">
   <div class="form-box">
@@ -433,18 +1792,98 @@ const FRONTEND_HTML = `<!DOCTYPE html>
     <input id="f-threshold" type="number" value="51" min="1" max="100">
     <label for="f-spend">Spend Limit (sats) &mdash; 0 = unlimited</label>
     <input id="f-spend" type="number" value="0" min="0">
+    <label for="f-treasury">Treasury Stacks Address &mdash; where sBTC deposits are sent</label>
+    <input id="f-treasury" placeholder="SP...">
     <div class="form-actions">
       <button class="btn btn-primary" onclick="submitDAO()">Create DAO</button>
-      <button class="btn btn-cancel" onclick="closeForm()">Cancel</button>
+      <button class="btn btn-cancel" onclick="closeForm('create-form')">Cancel</button>
+    </div>
+    <div id="f-error" class="form-error"></div>
+  </div>
+</div>
+
+<!-- Invite Form -->
+<div class="form-overlay" id="invite-form" role="dialog" aria-modal="true" aria-labelledby="invite-heading">
+  <div class="form-box">
+    <h2 id="invite-heading">Invite a member</h2>
+    <label for="i-address">Their BTC Address &mdash; leave empty for an open link</label>
+    <input id="i-address" placeholder="bc1q...">
+    <label for="i-name">Display Name</label>
+    <input id="i-name" placeholder="e.g. Satoshi">
+    <label for="i-role">Role</label>
+    <select id="i-role"><option value="member">member</option><option value="admin">admin</option></select>
+    <label for="i-hours">Expires after (hours)</label>
+    <input id="i-hours" type="number" value="72" min="1">
+    <div class="form-actions">
+      <button class="btn btn-primary" onclick="submitInvite()">Create invite</button>
+      <button class="btn btn-cancel" onclick="closeForm('invite-form')">Close</button>
     </div>
-    <div id="f-error" style="color:var(--red);font-size:12px;margin-top:8px;"></div>
+    <div id="i-result"></div>
+    <div id="i-error" class="form-error"></div>
+  </div>
+</div>
+
+<!-- Proposal Form -->
+<div class="form-overlay" id="proposal-form" role="dialog" aria-modal="true" aria-labelledby="proposal-heading">
+  <div class="form-box">
+    <h2 id="proposal-heading">New proposal</h2>
+    <label for="p-title">Title *</label>
+    <input id="p-title" placeholder="e.g. Pay the logo designer" required>
+    <label for="p-desc">Description</label>
+    <textarea id="p-desc" placeholder="Why should members vote yes?"></textarea>
+    <label for="p-type">Action</label>
+    <select id="p-type" onchange="proposalFields()">
+      <option value="general">general &mdash; no effect when passed</option>
+      <option value="spending">spending &mdash; pay from the treasury</option>
+      <option value="membership">membership &mdash; add or remove a member</option>
+      <option value="bounty">bounty &mdash; post a paid task</option>
+    </select>
+    <div id="p-op-field">
+      <label for="p-op">Membership change</label>
+      <select id="p-op"><option value="add">add</option><option value="remove">remove</option></select>
+    </div>
+    <div id="p-amount-field">
+      <label for="p-amount">Amount (sats)</label>
+      <input id="p-amount" type="number" min="1">
+    </div>
+    <div id="p-recipient-field">
+      <label for="p-recipient">Recipient BTC Address</label>
+      <input id="p-recipient" placeholder="bc1q...">
+    </div>
+    <div class="form-actions">
+      <button class="btn btn-primary" onclick="submitProposal()">Propose</button>
+      <button class="btn btn-cancel" onclick="closeForm('proposal-form')">Cancel</button>
+    </div>
+    <div id="p-error" class="form-error"></div>
+  </div>
+</div>
+
+<!-- Fund Form -->
+<div class="form-overlay" id="fund-form" role="dialog" aria-modal="true" aria-labelledby="fund-heading">
+  <div class="form-box">
+    <h2 id="fund-heading">Fund the treasury</h2>
+    <p class="form-note">Send sBTC to the treasury address below, then enter the amount and the transaction id.
+      The deposit counts once it is confirmed on chain.</p>
+    <div class="mono-box" id="fund-address"></div>
+    <label for="d-amount">Amount (sats) *</label>
+    <input id="d-amount" type="number" min="1" required>
+    <label for="d-tx">Transaction ID *</label>
+    <input id="d-tx" placeholder="0x..." required>
+    <div class="form-actions">
+      <button class="btn btn-primary" onclick="submitFunding()">Record deposit</button>
+      <button class="btn btn-cancel" onclick="closeForm('fund-form')">Cancel</button>
+    </div>
+    <div id="d-error" class="form-error"></div>
   </div>
 </div>
 
 <script>
 const API = '';
+const LIVE_INTERVAL_MS = 10000;
 
-function esc(s) { const d=document.createElement('div'); d.textContent=s||''; return d.innerHTML; }
+// Safe in text and in quoted attributes
+const ESCAPES = { '&':'&amp;', '<':'&lt;', '>':'&gt;', '"':'&quot;', "'":'&#39;' };
+function esc(s) { return (s==null?'':String(s)).replace(/[&<>"']/g, c => ESCAPES[c]); }
 function truncAddr(a) { return a ? a.slice(0,8)+'...'+a.slice(-6) : '?'; }
 function fmtSats(s) { return s ? s.toLocaleString()+' sats' : '0 sats'; }
 function timeAgo(ts) {
@@ -453,6 +1892,126 @@ function timeAgo(ts) {
   const h = Math.floor(m/60); if (h<24) return h+'h ago';
   return Math.floor(h/24)+'d ago';
 }
+function timeLeft(ts) {
+  const m = Math.floor((new Date(ts.replace(' ','T')+'Z').getTime()-Date.now())/60000);
+  if (m<1) return 'voting closed'; if (m<60) return m+'m left';
+  const h = Math.floor(m/60); if (h<48) return h+'h left';
+  return Math.floor(h/24)+'d left';
+}
+
+let toastTimer = null;
+function notify(msg, isError) {
+  const el = document.getElementById('toast');
+  el.textContent = msg;
+  el.className = 'toast open'+(isError?' error':'');
+  clearTimeout(toastTimer);
+  toastTimer = setTimeout(() => { el.className='toast'; }, 5000);
+}
+
+async function sha256Hex(s) {
+  const b = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s));
+  return Array.from(new Uint8Array(b)).map(x=>x.toString(16).padStart(2,'0')).join('');
+}
+
+// ── Wallet ──
+// Signing hook: set window.daoFactoryWallet = { address, signMessage(message) → Promise<signature> }
+// to sign with any wallet or agent key. Otherwise Unisat or Leather are used (BIP-322 over the address).
+const wallet = { address: localStorage.getItem('dao-factory-wallet') };
+
+async function connectWallet() {
+  try {
+    let address = null;
+    if (window.daoFactoryWallet) address = window.daoFactoryWallet.address;
+    else if (window.unisat) address = (await window.unisat.requestAccounts())[0];
+    else if (window.LeatherProvider) {
+      const r = await window.LeatherProvider.request('getAddresses');
+      const btc = r.result.addresses.find(a => a.type === 'p2wpkh');
+      address = btc && btc.address;
+    }
+    else throw new Error('No Bitcoin wallet found — install Leather or Unisat to sign');
+    if (!address) throw new Error('The wallet did not share an address');
+    wallet.address = address;
+    localStorage.setItem('dao-factory-wallet', address);
+    renderWallet(); route();
+  } catch(e) { notify(e.message||'Could not connect the wallet', true); }
+}
+
+function disconnectWallet() {
+  wallet.address = null;
+  localStorage.removeItem('dao-factory-wallet');
+  renderWallet(); route();
+}
+
+function renderWallet() {
+  document.getElementById('wallet-bar').innerHTML = wallet.address
+    ? '<span>Signed in as <span style="color:var(--accent);">'+esc(truncAddr(wallet.address))+'</span></span>'+
+      '<button class="btn btn-cancel btn-small" onclick="disconnectWallet()">Disconnect</button>'
+    : '<button class="btn btn-cancel btn-small" onclick="connectWallet()">Connect wallet</button>';
+}
+
+async function signMessage(msg) {
+  if (window.daoFactoryWallet) return window.daoFactoryWallet.signMessage(msg);
+  if (window.unisat) return window.unisat.signMessage(msg, 'bip322-simple');
+  if (window.LeatherProvider) {
+    const r = await window.LeatherProvider.request('signMessage', { message: msg, paymentType: 'p2wpkh' });
+    return r.result.signature;
+  }
+  throw new Error('No Bitcoin wallet found — install Leather or Unisat to sign');
+}
+
+// Sign a write request with the wallet — message format in src/auth.ts
+async function signedFetch(path, address, body, method) {
+  method = method || 'POST';
+  const raw = JSON.stringify(body);
+  const nonce = crypto.randomUUID().replace(/-/g,'');
+  const ts = String(Math.floor(Date.now()/1000));
+  const msg = ['DAO Factory request',method+' '+path,'nonce: '+nonce,'timestamp: '+ts,'body: '+await sha256Hex(raw)].join('\\n');
+  const signature = await signMessage(msg);
+  return fetch(API+path, {
+    method,
+    headers:{'Content-Type':'application/json','X-Signer':address,'X-Signature':signature,'X-Nonce':nonce,'X-Timestamp':ts},
+    body: raw
+  });
+}
+
+// Send a signed request and report failures in errorId (or a toast); resolves to the JSON body, or null
+async function send(path, body, errorId) {
+  const fail = (msg) => {
+    if (errorId) document.getElementById(errorId).textContent = msg;
+    else notify(msg, true);
+    return null;
+  };
+  if (!wallet.address) return fail('Connect a wallet first');
+  try {
+    const r = await signedFetch(path, wallet.address, body);
+    const d = await r.json();
+    if (!r.ok) return fail(d.error||'Request failed');
+    return d;
+  } catch(e) { return fail(e.message||'Network error'); }
+}
+
+// ── Routing: #/ · #/daos/:id · #/daos/:id/proposals/:pid · #/invite/:token ──
+function route() {
+  let h = location.hash.slice(1);
+  if (h.charAt(0)==='/') h = h.slice(1);
+  const parts = h.split('/');
+  stopLive();
+  if (parts[0]==='daos' && /^[0-9]+$/.test(parts[1])) return loadDAO(parts[1], parts[2]==='proposals' ? parts[3] : null);
+  if (parts[0]==='invite' && parts[1]) return loadInvite(decodeURIComponent(parts[1]));
+  loadDAOs();
+}
+window.addEventListener('hashchange', route);
+
+function go(hash) {
+  if (location.hash===hash) route(); else location.hash = hash;
+}
+
+function showDetail() {
+  document.getElementById('dao-list').style.display='none';
+  const el = document.getElementById('dao-detail');
+  el.style.display='block';
+  return el;
+}
 
 async function loadStats() {
   try {
@@ -474,7 +2033,7 @@ async function loadDAOs() {
     const r = await fetch(API+'/api/daos'); const d = await r.json();
     if (!d.daos||!d.daos.length) { el.innerHTML='<div class="empty">No DAOs yet. Create the first one.</div>'; return; }
     el.innerHTML = d.daos.map(dao =>
-      '<div class="card" onclick="loadDAO('+dao.id+')">'+
+      '<a class="card" href="#/daos/'+dao.id+'" style="display:block;text-decoration:none;">'+
         '<div class="card-header">'+
           '<span class="card-title">'+esc(dao.name)+'</span>'+
           (dao.treasury_sats>0?'<span class="treasury">'+fmtSats(dao.treasury_sats)+'</span>':'')+
@@ -484,76 +2043,197 @@ async function loadDAOs() {
           '<span class="badge members">'+dao.member_count+' members</span>'+
           '<span class="badge proposals">'+dao.proposal_count+' proposals</span>'+
           '<span class="badge threshold">'+dao.approval_threshold+'% threshold</span>'+
-          '<span>by '+(dao.creator_name||truncAddr(dao.creator))+'</span>'+
+          '<span>by '+esc(dao.creator_name||truncAddr(dao.creator))+'</span>'+
           '<span>'+timeAgo(dao.created_at)+'</span>'+
         '</div>'+
-      '</div>'
+      '</a>'
     ).join('');
   } catch(e) { el.innerHTML='<div class="empty">Error loading DAOs</div>'; }
 }
 
-async function loadDAO(id) {
-  document.getElementById('dao-list').style.display='none';
-  const el = document.getElementById('dao-detail');
-  el.style.display='block';
+// ── DAO page ──
+// current holds the open DAO and the connected wallet's membership in it
+let current = null;
+
+function memberFor(members) {
+  if (!wallet.address) return null;
+  return members.find(m => m.btc_address===wallet.address || m.stx_address===wallet.address) || null;
+}
+
+function statusBadge(p) {
+  return '<span class="badge '+(p.status==='passed'?'members':p.status==='active'?'proposals':'threshold')+'">'+esc(p.status.replace('_',' '))+'</span>';
+}
+
+function tallyHtml(p) {
+  const t = p.tally || { votes_for:p.votes_for, votes_against:p.votes_against, votes_abstain:p.votes_abstain||0, total_weight:0, weight_cast:0, quorum_needed:0 };
+  const total = t.total_weight || (t.votes_for+t.votes_against+t.votes_abstain) || 1;
+  const pct = (n) => Math.min(100, n/total*100).toFixed(1)+'%';
+  return '<div class="card-meta">'+
+      '<span style="color:var(--green);">'+t.votes_for+' yes</span>'+
+      '<span style="color:var(--red);">'+t.votes_against+' no</span>'+
+      (t.votes_abstain?'<span>'+t.votes_abstain+' abstain</span>':'')+
+      (t.quorum_needed?'<span>'+t.weight_cast+'/'+t.quorum_needed+' for quorum</span>':'')+
+      (t.approval_pct!=null&&t.weight_cast?'<span>'+t.approval_pct+'% approval</span>':'')+
+    '</div>'+
+    '<div class="tally-bar" role="img" aria-label="'+t.votes_for+' yes, '+t.votes_against+' no">'+
+      '<div class="yes" style="width:'+pct(t.votes_for)+'"></div>'+
+      '<div class="no" style="width:'+pct(t.votes_against)+'"></div>'+
+      '<div class="abstain" style="width:'+pct(t.votes_abstain)+'"></div>'+
+      (t.quorum_needed?'<div class="quorum" style="left:'+pct(t.quorum_needed)+'"></div>':'')+
+    '</div>';
+}
+
+function voteButtons(p) {
+  if (p.status!=='active' || !current || !current.me) return '';
+  if (p.voting_ends_at && new Date(p.voting_ends_at.replace(' ','T')+'Z').getTime()<=Date.now()) return '';
+  return '<div class="vote-actions">'+
+    '<button class="btn btn-small btn-yes" onclick="castVote('+p.id+',&quot;yes&quot;,this)">Vote yes</button>'+
+    '<button class="btn btn-small btn-no" onclick="castVote('+p.id+',&quot;no&quot;,this)">Vote no</button>'+
+    '<button class="btn btn-small btn-cancel" onclick="castVote('+p.id+',&quot;abstain&quot;,this)">Abstain</button>'+
+  '</div>';
+}
+
+function proposalCard(p) {
+  return '<div class="card" id="proposal-'+p.id+'" style="cursor:default;">'+
+    '<div class="card-header">'+
+      '<a class="card-title" href="#/daos/'+p.dao_id+'/proposals/'+p.id+'">'+esc(p.title)+'</a>'+
+      '<span id="status-'+p.id+'">'+statusBadge(p)+'</span>'+
+    '</div>'+
+    (p.description?'<div class="card-desc">'+esc(p.description)+'</div>':'')+
+    '<div class="card-meta" style="margin-top:8px;">'+
+      '<span>'+esc(p.action_type)+'</span>'+
+      (p.amount_sats?'<span>'+fmtSats(p.amount_sats)+'</span>':'')+
+      (p.recipient?'<span>to '+esc(truncAddr(p.recipient))+'</span>':'')+
+      '<span>'+timeAgo(p.created_at)+'</span>'+
+      (p.status==='active'&&p.voting_ends_at?'<span>'+timeLeft(p.voting_ends_at)+'</span>':'')+
+    '</div>'+
+    '<div class="tally" id="tally-'+p.id+'">'+tallyHtml(p)+'</div>'+
+    '<div id="votes-'+p.id+'">'+voteButtons(p)+'</div>'+
+    (p.execution_error?'<div class="card-desc" style="color:var(--red);">'+esc(p.execution_error)+'</div>':'')+
+  '</div>';
+}
+
+function toolbar(dao) {
+  const me = current.me;
+  const buttons = [];
+  if (!wallet.address) return '<div class="toolbar"><span class="form-note">Connect a wallet to propose, vote or fund.</span></div>';
+  if (dao.status==='active' && me) buttons.push('<button class="btn btn-primary btn-small" onclick="openProposalForm()">New proposal</button>');
+  if (dao.status==='active' && me && me.role==='admin') buttons.push('<button class="btn btn-cancel btn-small" onclick="openInviteForm()">Invite member</button>');
+  if (dao.status==='active' && dao.treasury_address) buttons.push('<button class="btn btn-cancel btn-small" onclick="openFundForm()">Fund treasury</button>');
+  if (!me) buttons.push('<span class="form-note">You are not a member of this DAO &mdash; ask an admin for an invite link.</span>');
+  return '<div class="toolbar">'+buttons.join('')+'</div>';
+}
+
+async function loadDAO(id, focusPid) {
+  const el = showDetail();
   try {
-    const r = await fetch(API+'/api/daos/'+id); const d = await r.json();
+    const r = await fetch(API+'/api/daos/'+id);
+    if (!r.ok) { el.innerHTML='<div class="empty">DAO not found. <a href="#/">Back to all DAOs</a></div>'; return; }
+    const d = await r.json();
     const dao = d.dao;
+    current = { dao, members: d.members, me: memberFor(d.members), proposals: d.proposals };
     el.innerHTML =
       '<div style="margin-bottom:16px;">'+
-        '<button class="btn btn-cancel" onclick="loadDAOs()" style="margin-bottom:12px;">&larr; Back</button>'+
+        '<a class="btn btn-cancel" href="#/" style="display:inline-block;margin-bottom:12px;">&larr; Back</a>'+
         '<h2 style="color:var(--accent);font-size:20px;">'+esc(dao.name)+'</h2>'+
         '<p style="color:var(--dim);font-size:13px;margin-top:4px;">'+esc(dao.description)+'</p>'+
         '<div class="card-meta" style="margin-top:8px;">'+
+          (dao.status!=='active'?'<span class="badge threshold">'+esc(dao.status)+'</span>':'')+
           '<span class="badge members">'+dao.member_count+' members</span>'+
           '<span class="badge proposals">'+dao.proposal_count+' proposals</span>'+
           '<span class="badge threshold">'+dao.approval_threshold+'% threshold</span>'+
-          (dao.treasury_sats>0?'<span class="treasury">'+fmtSats(dao.treasury_sats)+'</span>':'')+
+          '<span class="treasury" id="dao-treasury">'+fmtSats(dao.treasury_sats)+'</span>'+
         '</div>'+
+        toolbar(dao)+
       '</div>'+
+      '<h3 style="color:var(--text);font-size:14px;margin:16px 0 8px;">Proposals</h3>'+
+      (d.proposals.length?'<div class="cards">'+d.proposals.map(proposalCard).join('')+'</div>':'<div class="empty" style="padding:24px;">No proposals yet.</div>')+
       '<h3 style="color:var(--text);font-size:14px;margin:16px 0 8px;">Members</h3>'+
       '<div class="cards">'+d.members.map(m =>
         '<div class="card" style="padding:10px 16px;cursor:default;">'+
-          '<span style="color:var(--accent);">'+(m.display_name||truncAddr(m.btc_address))+'</span>'+
-          '<span style="color:var(--dim);font-size:11px;margin-left:8px;">'+m.role+'</span>'+
+          '<span style="color:var(--accent);">'+esc(m.display_name||truncAddr(m.btc_address))+'</span>'+
+          '<span style="color:var(--dim);font-size:11px;margin-left:8px;">'+esc(m.role)+'</span>'+
+          (current.me&&current.me.btc_address===m.btc_address?'<span style="color:var(--dim);font-size:11px;margin-left:8px;">(you)</span>':'')+
           '<span style="color:var(--dim);font-size:11px;float:right;">'+timeAgo(m.joined_at)+'</span>'+
         '</div>'
       ).join('')+'</div>'+
-      '<h3 style="color:var(--text);font-size:14px;margin:16px 0 8px;">Proposals</h3>'+
-      (d.proposals.length?'<div class="cards">'+d.proposals.map(p =>
-        '<div class="card" style="cursor:default;">'+
-          '<div class="card-header">'+
-            '<span class="card-title">'+esc(p.title)+'</span>'+
-            '<span class="badge '+(p.status==='passed'?'members':p.status==='active'?'proposals':'threshold')+'">'+p.status+'</span>'+
-          '</div>'+
-          (p.description?'<div class="card-desc">'+esc(p.description)+'</div>':'')+
-          '<div class="card-meta" style="margin-top:8px;">'+
-            '<span style="color:var(--green);">'+p.votes_for+' yes</span>'+
-            '<span style="color:var(--red);">'+p.votes_against+' no</span>'+
-            (p.amount_sats?'<span>'+fmtSats(p.amount_sats)+'</span>':'')+
-            '<span>'+timeAgo(p.created_at)+'</span>'+
-          '</div>'+
-        '</div>'
-      ).join('')+'</div>':'<div class="empty" style="padding:24px;">No proposals yet.</div>')+
       '<h3 style="color:var(--text);font-size:14px;margin:16px 0 8px;">Activity</h3>'+
       '<div class="cards">'+d.activity.map(a =>
         '<div style="font-size:11px;color:var(--dim);padding:4px 0;">'+
           '<span style="color:var(--accent);">'+esc(a.action)+'</span> — '+esc(a.details)+' — '+timeAgo(a.created_at)+
         '</div>'
       ).join('')+'</div>';
+
+    if (focusPid) {
+      const card = document.getElementById('proposal-'+focusPid);
+      if (card) { card.classList.add('focused'); card.scrollIntoView({ block: 'center' }); }
+    }
+    startLive(dao.id);
   } catch(e) { el.innerHTML='<div class="empty">Error loading DAO</div>'; }
 }
 
-function openForm() {
-  document.getElementById('create-form').classList.add('open');
-  document.getElementById('f-name').focus();
+// ── Live tallies: poll the open DAO and patch proposals in place while any is active ──
+let liveTimer = null;
+
+function startLive(id) {
+  stopLive();
+  if (current && current.proposals.some(p => p.status==='active')) {
+    liveTimer = setInterval(() => { if (!document.hidden) refreshTallies(id); }, LIVE_INTERVAL_MS);
+  }
 }
-function closeForm() {
-  document.getElementById('create-form').classList.remove('open');
-  document.getElementById('f-error').textContent='';
+
+function stopLive() {
+  if (liveTimer) clearInterval(liveTimer);
+  liveTimer = null;
+}
+
+async function refreshTallies(id) {
+  try {
+    const r = await fetch(API+'/api/daos/'+id); if (!r.ok) return;
+    const d = await r.json();
+    if (!current || String(current.dao.id)!==String(id)) return;
+    // A new proposal or member changes the page's shape — render it again
+    if (d.proposals.length!==current.proposals.length || d.members.length!==current.members.length) return loadDAO(id);
+    current.proposals = d.proposals;
+    current.dao = d.dao;
+    document.getElementById('dao-treasury').textContent = fmtSats(d.dao.treasury_sats);
+    d.proposals.forEach(p => {
+      const tally = document.getElementById('tally-'+p.id);
+      if (!tally) return;
+      tally.innerHTML = tallyHtml(p);
+      const status = document.getElementById('status-'+p.id);
+      if (status.textContent!==p.status.replace('_',' ')) {
+        status.innerHTML = statusBadge(p);
+        document.getElementById('votes-'+p.id).innerHTML = voteButtons(p);
+      }
+    });
+    if (!d.proposals.some(p => p.status==='active')) stopLive();
+  } catch(e) { console.error(e); }
+}
+
+async function castVote(pid, choice, button) {
+  const buttons = button.parentNode.querySelectorAll('button');
+  buttons.forEach(b => { b.disabled = true; });
+  const d = await send('/api/daos/'+current.dao.id+'/proposals/'+pid+'/vote', { voter: current.me.btc_address, vote: choice });
+  buttons.forEach(b => { b.disabled = false; });
+  if (!d) return;
+  notify(d.status && d.status!=='active' ? 'Vote recorded — proposal '+d.status.replace('_',' ') : 'Vote recorded');
+  refreshTallies(current.dao.id);
+  loadStats();
+}
+
+// ── Forms ──
+function openForm(id) {
+  document.getElementById(id).classList.add('open');
+  const first = document.querySelector('#'+id+' input, #'+id+' select');
+  if (first) first.focus();
+}
+function closeForm(id) {
+  document.getElementById(id).classList.remove('open');
+  document.querySelectorAll('#'+id+' .form-error').forEach(e => { e.textContent=''; });
 }
 document.addEventListener('keydown', (e) => {
-  if (e.key === 'Escape' && document.getElementById('create-form').classList.contains('open')) closeForm();
+  if (e.key === 'Escape') document.querySelectorAll('.form-overlay.open').forEach(f => closeForm(f.id));
 });
 
 async function submitDAO() {
@@ -563,31 +2243,151 @@ async function submitDAO() {
   const creatorName = document.getElementById('f-creator-name').value.trim();
   const threshold = parseInt(document.getElementById('f-threshold').value)||51;
   const spend = parseInt(document.getElementById('f-spend').value)||0;
+  const treasury = document.getElementById('f-treasury').value.trim();
 
   if (!name||!desc||!creator) { document.getElementById('f-error').textContent='Fill in all required fields'; return; }
 
   try {
-    const r = await fetch(API+'/api/daos', {
-      method:'POST', headers:{'Content-Type':'application/json'},
-      body: JSON.stringify({name, description:desc, creator, creator_name:creatorName||undefined, approval_threshold:threshold, spend_limit_sats:spend})
-    });
+    const r = await signedFetch('/api/daos', creator,
+      {name, description:desc, creator, creator_name:creatorName||undefined, approval_threshold:threshold, spend_limit_sats:spend,
+       treasury_address:treasury||undefined});
     const d = await r.json();
     if (!r.ok) { document.getElementById('f-error').textContent=d.error; return; }
-    closeForm();
-    loadStats(); loadDAOs();
-  } catch(e) { document.getElementById('f-error').textContent='Network error'; }
+    closeForm('create-form');
+    loadStats(); go('#/daos/'+d.dao_id);
+  } catch(e) { document.getElementById('f-error').textContent=e.message||'Network error'; }
+}
+
+function openInviteForm() {
+  document.getElementById('i-result').innerHTML='';
+  openForm('invite-form');
+}
+
+async function submitInvite() {
+  const address = document.getElementById('i-address').value.trim();
+  const d = await send('/api/daos/'+current.dao.id+'/members', {
+    inviter: current.me.btc_address,
+    btc_address: address||undefined,
+    display_name: document.getElementById('i-name').value.trim()||undefined,
+    role: document.getElementById('i-role').value,
+    expires_in_hours: parseInt(document.getElementById('i-hours').value)||undefined,
+  }, 'i-error');
+  if (!d) return;
+  const link = location.origin+location.pathname+'#/invite/'+d.token;
+  document.getElementById('i-result').innerHTML =
+    '<p class="form-note" style="margin-top:12px;">Share this link'+(address?' with '+esc(truncAddr(address)):'')+
+    ' &mdash; it works once and expires '+esc(d.invite.expires_at)+' UTC:</p>'+
+    '<div class="mono-box">'+esc(link)+'</div>';
+}
+
+function proposalFields() {
+  const type = document.getElementById('p-type').value;
+  document.getElementById('p-op-field').style.display = type==='membership' ? 'block' : 'none';
+  document.getElementById('p-amount-field').style.display = type==='spending'||type==='bounty' ? 'block' : 'none';
+  document.getElementById('p-recipient-field').style.display = type==='spending'||type==='membership' ? 'block' : 'none';
+}
+
+function openProposalForm() {
+  proposalFields();
+  openForm('proposal-form');
+}
+
+async function submitProposal() {
+  const type = document.getElementById('p-type').value;
+  const title = document.getElementById('p-title').value.trim();
+  const amount = parseInt(document.getElementById('p-amount').value);
+  const recipient = document.getElementById('p-recipient').value.trim();
+  const error = document.getElementById('p-error');
+  if (!title) { error.textContent='A title is required'; return; }
+  if ((type==='spending'||type==='bounty') && !(amount>0)) { error.textContent='Enter an amount in sats'; return; }
+  if ((type==='spending'||type==='membership') && !recipient) { error.textContent='Enter the recipient address'; return; }
+
+  const body = { proposer: current.me.btc_address, title, description: document.getElementById('p-desc').value.trim()||undefined, action_type: type };
+  if (type==='spending'||type==='bounty') body.amount_sats = amount;
+  if (type==='spending'||type==='membership') body.recipient = recipient;
+  if (type==='membership') body.action_payload = { op: document.getElementById('p-op').value };
+
+  const d = await send('/api/daos/'+current.dao.id+'/proposals', body, 'p-error');
+  if (!d) return;
+  closeForm('proposal-form');
+  ['p-title','p-desc','p-amount','p-recipient'].forEach(f => { document.getElementById(f).value=''; });
+  loadStats(); go('#/daos/'+current.dao.id+'/proposals/'+d.proposal_id);
+}
+
+function openFundForm() {
+  document.getElementById('fund-address').textContent = current.dao.treasury_address;
+  openForm('fund-form');
+}
+
+async function submitFunding() {
+  const amount = parseInt(document.getElementById('d-amount').value);
+  const tx = document.getElementById('d-tx').value.trim();
+  if (!(amount>0)||!tx) { document.getElementById('d-error').textContent='Enter the amount and transaction id'; return; }
+  const funder = current.me ? current.me.btc_address : wallet.address;
+  const d = await send('/api/daos/'+current.dao.id+'/fund', { funder, amount_sats: amount, tx_id: tx }, 'd-error');
+  if (!d) return;
+  closeForm('fund-form');
+  document.getElementById('d-amount').value=''; document.getElementById('d-tx').value='';
+  notify(d.status==='confirmed' ? 'Deposit confirmed — '+fmtSats(amount)+' added' : 'Deposit recorded — it counts once the transaction confirms');
+  loadStats(); loadDAO(current.dao.id);
+}
+
+// ── Invite links ──
+// The invite on screen, read by acceptInvite rather than inlined into markup
+let shownInvite = null;
+
+async function loadInvite(token) {
+  const el = showDetail();
+  shownInvite = null;
+  try {
+    const r = await fetch(API+'/api/invites/'+encodeURIComponent(token)); const d = await r.json();
+    if (!r.ok) { el.innerHTML='<div class="empty">'+esc(d.error||'Invite not found')+'. <a href="#/">Back to all DAOs</a></div>'; return; }
+    const inv = d.invite;
+    const open = inv.status==='pending';
+    el.innerHTML =
+      '<a class="btn btn-cancel" href="#/" style="display:inline-block;margin-bottom:12px;">&larr; Back</a>'+
+      '<div class="card" style="cursor:default;">'+
+        '<div class="card-header"><span class="card-title">Join '+esc(inv.dao_name)+' as '+esc(inv.role)+'</span>'+
+          '<span class="badge '+(open?'members':'threshold')+'">'+esc(inv.status)+'</span></div>'+
+        (inv.btc_address?'<div class="card-desc">For '+esc(inv.btc_address)+'</div>':'')+
+        '<div class="card-meta" style="margin-top:8px;"><span>expires '+esc(inv.expires_at)+' UTC</span>'+
+          '<a href="#/daos/'+inv.dao_id+'">View the DAO</a></div>'+
+        (open ? (wallet.address
+          ? '<div class="form-box" style="padding:12px 0 0;width:100%;max-width:none;border:none;">'+
+              '<label for="a-name">Display Name</label><input id="a-name">'+
+              '<div class="form-actions"><button class="btn btn-primary" onclick="acceptInvite()">Accept invite</button></div>'+
+              '<div id="a-error" class="form-error"></div></div>'
+          : '<div class="toolbar"><button class="btn btn-primary btn-small" onclick="connectWallet()">Connect wallet to accept</button></div>')
+        : '')+
+      '</div>';
+    shownInvite = { token, daoId: inv.dao_id };
+    const nameInput = document.getElementById('a-name');
+    if (nameInput) nameInput.value = inv.display_name||'';
+  } catch(e) { el.innerHTML='<div class="empty">Error loading invite</div>'; }
+}
+
+async function acceptInvite() {
+  const { token, daoId } = shownInvite;
+  const d = await send('/api/invites/'+encodeURIComponent(token)+'/accept',
+    { btc_address: wallet.address, display_name: document.getElementById('a-name').value.trim()||undefined }, 'a-error');
+  if (!d) return;
+  notify('Welcome aboard');
+  loadStats(); go('#/daos/'+daoId);
 }
 
 document.querySelectorAll('.tab').forEach(tab => {
   tab.addEventListener('click', () => {
     document.querySelectorAll('.tab').forEach(t=>t.classList.remove('active'));
     tab.classList.add('active');
-    if (tab.dataset.view==='create') { openForm(); }
-    else { loadDAOs(); }
+    if (tab.dataset.view==='create') {
+      if (wallet.address && !document.getElementById('f-creator').value) document.getElementById('f-creator').value = wallet.address;
+      openForm('create-form');
+    }
+    else { go('#/'); }
   });
 });
 
-loadStats(); loadDAOs();
+renderWallet(); loadStats(); route();
 </script>
 </body>
 </html>`;
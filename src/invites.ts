@@ -0,0 +1,63 @@
+// Joining a DAO — invite tokens and join requests
+//
+// Invites: an admin creates a single-use token (optionally bound to one
+// address) that expires after INVITE_TTL hours. Only its SHA-256 is stored;
+// the token itself is returned once. The invitee accepts it with a request
+// signed by their own address.
+//
+// Join requests: an outsider asks to join. Admins approve or deny it directly,
+// or a membership proposal with action_payload.join_request_id decides it —
+// approved when the proposal executes, denied when it is rejected or expires.
+
+import { activity } from './activity';
+import { toSqlTime } from './governance';
+
+export const DEFAULT_INVITE_HOURS = 72;
+export const MAX_INVITE_HOURS = 720;
+
+export type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+export type JoinRequestStatus = 'pending' | 'approved' | 'denied' | 'withdrawn';
+
+export function newInviteToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return 'inv_' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function inviteHours(value: unknown): number {
+  const hours = Number(value);
+  if (!Number.isInteger(hours) || hours < 1) return DEFAULT_INVITE_HOURS;
+  return Math.min(hours, MAX_INVITE_HOURS);
+}
+
+// Invite as returned by the API — pending invites past expires_at read as 'expired'
+export function publicInvite(invite: any): any {
+  const { token_hash, ...rest } = invite;
+  const expired = invite.status === 'pending' && invite.expires_at <= toSqlTime(Date.now());
+  return { ...rest, status: expired ? 'expired' : invite.status };
+}
+
+// Close a join request; proposalId is set when a proposal made the decision
+export function decideJoinRequest(
+  db: D1Database, request: any, status: 'approved' | 'denied', decidedBy: string, proposalId: number | null = null,
+): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `UPDATE join_requests SET status = ?, decided_by = ?, proposal_id = ?, decided_at = datetime('now')
+       WHERE id = ? AND status = 'pending'`
+    ).bind(status, decidedBy, proposalId, request.id),
+    activity(db, request.dao_id, decidedBy, status === 'approved' ? 'join_approved' : 'join_denied',
+      `Join request from ${request.display_name || request.btc_address} ${status}`,
+      { join_request_id: request.id, address: request.btc_address, proposal_id: proposalId }),
+  ];
+}
+
+export async function pendingJoinRequest(db: D1Database, daoId: string | number, requestId: unknown): Promise<any | null> {
+  return db
+    .prepare('SELECT * FROM join_requests WHERE id = ? AND dao_id = ? AND status = ?')
+    .bind(requestId, daoId, 'pending').first();
+}
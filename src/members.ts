@@ -0,0 +1,79 @@
+// Member lifecycle — roles, joining, removal and what happens to a departing member's votes
+//
+// Vote rule: when a member leaves or is removed, their votes on proposals that
+// are still active are withdrawn, along with delegations to or from them, and
+// the tallies recounted; votes on closed proposals stay as history. A DAO
+// always keeps at least one admin.
+
+import { activity, ActivityMetadata } from './activity';
+
+export const MEMBER_ROLES = ['admin', 'member'] as const;
+export type MemberRole = typeof MEMBER_ROLES[number];
+
+export function isRole(value: unknown): value is MemberRole {
+  return (MEMBER_ROLES as readonly unknown[]).includes(value);
+}
+
+export async function adminCount(db: D1Database, daoId: string | number): Promise<number> {
+  const row = await db
+    .prepare('SELECT COUNT(*) as n FROM members WHERE dao_id = ? AND role = ?')
+    .bind(daoId, 'admin').first<{ n: number }>();
+  return row?.n || 0;
+}
+
+export async function isMember(db: D1Database, daoId: string | number, address: string): Promise<boolean> {
+  const row = await db
+    .prepare('SELECT id FROM members WHERE dao_id = ? AND btc_address = ?')
+    .bind(daoId, address).first();
+  return !!row;
+}
+
+export async function isAdmin(db: D1Database, daoId: string | number, address: string): Promise<boolean> {
+  const row = await db
+    .prepare('SELECT id FROM members WHERE dao_id = ? AND btc_address = ? AND role = ?')
+    .bind(daoId, address, 'admin').first();
+  return !!row;
+}
+
+// Withdraw the member's votes from still-active proposals and drop delegations to or from them.
+// Tallies are stale until recountActive() runs after the batch.
+export function withdrawVotes(db: D1Database, daoId: string | number, address: string): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `DELETE FROM votes WHERE dao_id = ? AND voter = ?
+         AND proposal_id IN (SELECT id FROM proposals WHERE dao_id = ? AND status = 'active')`
+    ).bind(daoId, address, daoId),
+    db.prepare('DELETE FROM delegations WHERE dao_id = ? AND (delegator = ? OR delegate = ?)').bind(daoId, address, address),
+  ];
+}
+
+export interface NewMember {
+  btc_address: string;
+  stx_address?: string | null;
+  display_name?: string | null;
+  role: MemberRole;
+}
+
+// Everything needed to add a member to a DAO, as one batch
+export function addMember(
+  db: D1Database, daoId: string | number, member: NewMember, actor: string, action: string, details: string, metadata: ActivityMetadata = {},
+): D1PreparedStatement[] {
+  return [
+    db.prepare('INSERT INTO members (dao_id, btc_address, stx_address, display_name, role) VALUES (?, ?, ?, ?, ?)')
+      .bind(daoId, member.btc_address, member.stx_address || null, member.display_name || null, member.role),
+    db.prepare('UPDATE daos SET member_count = member_count + 1, updated_at = datetime(\'now\') WHERE id = ?').bind(daoId),
+    activity(db, daoId, actor, action, details, { address: member.btc_address, role: member.role, ...metadata }),
+  ];
+}
+
+// Everything needed to take a member out of a DAO, as one batch
+export function removeMember(
+  db: D1Database, daoId: string | number, address: string, actor: string, action: string, details: string, metadata: ActivityMetadata = {},
+): D1PreparedStatement[] {
+  return [
+    ...withdrawVotes(db, daoId, address),
+    db.prepare('DELETE FROM members WHERE dao_id = ? AND btc_address = ?').bind(daoId, address),
+    db.prepare('UPDATE daos SET member_count = member_count - 1, updated_at = datetime(\'now\') WHERE id = ?').bind(daoId),
+    activity(db, daoId, actor, action, details, { address, ...metadata }),
+  ];
+}
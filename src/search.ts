@@ -0,0 +1,65 @@
+// Discovery — full-text search and sorted DAO listings
+//
+// dao_search and proposal_search are FTS5 indexes over daos and proposals,
+// kept current by triggers (migration 0016). Search terms are quoted before
+// they reach MATCH, so user input can't produce FTS syntax errors; the last
+// term matches as a prefix for search-as-you-type.
+//
+// DAO listings page with an opaque cursor holding the sort value and id of
+// the last row, so pages stay stable while DAOs are created or change rank.
+
+export const DAO_SORTS: Record<string, string> = {
+  created: 'created_at',
+  treasury: 'treasury_sats',
+  members: 'member_count',
+  activity: 'COALESCE(last_activity_at, created_at)',
+  proposals: 'proposal_count',
+};
+
+export const SEARCH_TYPES = ['all', 'daos', 'proposals'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export function ftsQuery(q: string): string | null {
+  const terms = q.match(/[\p{L}\p{N}_]+/gu);
+  if (!terms) return null;
+  return terms.map((t, i) => `"${t}"${i === terms.length - 1 ? '*' : ''}`).join(' ');
+}
+
+export function encodeCursor(value: unknown, id: number): string {
+  return btoa(JSON.stringify([value, id])).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string): [string | number, number] | null {
+  try {
+    const parsed = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    if (!Array.isArray(parsed) || parsed.length !== 2 || !Number.isInteger(parsed[1])) return null;
+    if (typeof parsed[0] !== 'string' && typeof parsed[0] !== 'number') return null;
+    return parsed as [string | number, number];
+  } catch {
+    return null;
+  }
+}
+
+export async function searchDaos(db: D1Database, match: string, limit: number): Promise<any[]> {
+  const rows = await db
+    .prepare(
+      `SELECT daos.id, daos.name, daos.description, daos.status, daos.member_count, daos.treasury_sats,
+              snippet(dao_search, -1, '[', ']', '…', 12) AS snippet
+       FROM dao_search JOIN daos ON daos.id = dao_search.rowid
+       WHERE dao_search MATCH ? ORDER BY bm25(dao_search, 5.0, 1.0) LIMIT ?`
+    )
+    .bind(match, limit).all();
+  return rows.results;
+}
+
+export async function searchProposals(db: D1Database, match: string, limit: number, daoId: string | null): Promise<any[]> {
+  const rows = await db
+    .prepare(
+      `SELECT p.id, p.dao_id, daos.name AS dao_name, p.title, p.status, p.action_type, p.created_at,
+              snippet(proposal_search, -1, '[', ']', '…', 12) AS snippet
+       FROM proposal_search JOIN proposals p ON p.id = proposal_search.rowid JOIN daos ON daos.id = p.dao_id
+       WHERE proposal_search MATCH ? AND (? IS NULL OR p.dao_id = ?) ORDER BY bm25(proposal_search, 5.0, 1.0) LIMIT ?`
+    )
+    .bind(match, daoId, daoId, limit).all();
+  return rows.results;
+}
@@ -0,0 +1,61 @@
+// DAO settings — changed only by passing a 'settings' proposal
+//
+// PATCH /api/daos/:id doesn't write anything itself: it opens a proposal whose
+// action_payload is the validated set of changes, and execution applies them
+// when the vote passes.
+
+import { isPrincipal } from './auth';
+import { MAX_VOTING_PERIOD_HOURS } from './governance';
+
+export const SETTINGS_FIELDS = [
+  'description', 'approval_threshold', 'quorum_pct', 'spend_limit_sats', 'voting_period_hours', 'treasury_address',
+  'contract_principal',
+] as const;
+export type SettingsField = typeof SETTINGS_FIELDS[number];
+export type SettingsChanges = Partial<Record<SettingsField, string | number>>;
+
+function intIn(value: unknown, min: number, max: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+// Validate requested changes against the current DAO, keeping only fields that actually change
+export function validateSettings(dao: any, input: unknown): SettingsChanges | string {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return `settings must be an object with any of: ${SETTINGS_FIELDS.join(', ')}`;
+  const unknown = Object.keys(input).filter(k => !(SETTINGS_FIELDS as readonly string[]).includes(k));
+  if (unknown.length) return `Unknown settings: ${unknown.join(', ')}. Allowed: ${SETTINGS_FIELDS.join(', ')}`;
+
+  const s = input as Record<string, unknown>;
+  if (s.description !== undefined && (typeof s.description !== 'string' || !s.description.trim())) return 'description must be a non-empty string';
+  if (s.approval_threshold !== undefined && !intIn(s.approval_threshold, 1, 100)) return 'approval_threshold must be an integer from 1 to 100';
+  if (s.quorum_pct !== undefined && !intIn(s.quorum_pct, 1, 100)) return 'quorum_pct must be an integer from 1 to 100';
+  if (s.spend_limit_sats !== undefined && !intIn(s.spend_limit_sats, 0, Number.MAX_SAFE_INTEGER)) return 'spend_limit_sats must be a non-negative integer (0 = no limit)';
+  if (s.voting_period_hours !== undefined && !intIn(s.voting_period_hours, 1, MAX_VOTING_PERIOD_HOURS)) {
+    return `voting_period_hours must be an integer from 1 to ${MAX_VOTING_PERIOD_HOURS}`;
+  }
+  if (s.treasury_address !== undefined && !isPrincipal(s.treasury_address)) return 'treasury_address must be a Stacks principal';
+  if (s.contract_principal !== undefined && !(isPrincipal(s.contract_principal) && String(s.contract_principal).includes('.'))) {
+    return 'contract_principal must be a Stacks contract principal (address.contract-name)';
+  }
+
+  const changes: SettingsChanges = {};
+  for (const field of SETTINGS_FIELDS) {
+    if (s[field] !== undefined && s[field] !== dao[field]) changes[field] = s[field] as string | number;
+  }
+  if (!Object.keys(changes).length) return 'settings would not change anything';
+  return changes;
+}
+
+export function applySettings(db: D1Database, daoId: string | number, changes: SettingsChanges): D1PreparedStatement {
+  // Column names come from SETTINGS_FIELDS, never from the request
+  const fields = SETTINGS_FIELDS.filter(f => changes[f] !== undefined);
+  return db
+    .prepare(`UPDATE daos SET ${fields.map(f => `${f} = ?`).join(', ')}, updated_at = datetime('now') WHERE id = ?`)
+    .bind(...fields.map(f => changes[f]), daoId);
+}
+
+export function describeSettings(dao: any, changes: SettingsChanges): string {
+  return SETTINGS_FIELDS
+    .filter(f => changes[f] !== undefined)
+    .map(f => f === 'description' ? 'description updated' : `${f} ${dao[f] ?? 'unset'} → ${changes[f]}`)
+    .join(', ');
+}
@@ -0,0 +1,135 @@
+// Payment streams — recurring payouts approved once by a 'stream' proposal
+//
+// A stream pays amount_sats to recipient every cadence period from start_at
+// until end_at or until cap_sats has been paid, whichever comes first. The
+// cron pays one installment per due stream per pass, so missed periods catch
+// up over the following passes. An installment that would break the DAO's
+// spend limit or overdraw the treasury pauses the stream instead; paused
+// streams resume on their own once the installment fits again. A
+// 'stream_cancel' proposal ends a stream for good.
+//
+// Cron runs can overlap, so each pass claims the stream with an UPDATE guarded
+// on the state it read (status, next_payment_at, installments_paid) and only
+// books the payout or logs the change when that UPDATE changed the row.
+
+import { activity } from './activity';
+import { ledgerBalance, streamPayoutEntry, syncTreasury } from './treasury';
+
+export const STREAM_CADENCES: Record<string, string> = {
+  daily: '+1 day',
+  weekly: '+7 days',
+  biweekly: '+14 days',
+  monthly: '+1 month',
+};
+
+export type StreamStatus = 'active' | 'paused' | 'completed' | 'cancelled';
+
+// Streams that can still pay out
+export const LIVE: readonly StreamStatus[] = ['active', 'paused'];
+
+export function startStream(db: D1Database, dao: any, proposal: any, payload: any): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `INSERT INTO streams (dao_id, proposal_id, recipient, amount_sats, cadence, cap_sats, start_at, end_at, next_payment_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, MAX(COALESCE(?7, datetime('now')), datetime('now')), ?8,
+               MAX(COALESCE(?7, datetime('now')), datetime('now')))`
+    ).bind(dao.id, proposal.id, proposal.recipient, proposal.amount_sats, payload.cadence, payload.cap_sats,
+           payload.start_at ?? null, payload.end_at ?? null),
+    activity(db, dao.id, 'system', 'stream_started',
+      `Stream of ${proposal.amount_sats} sats ${payload.cadence} to ${proposal.recipient} (cap ${payload.cap_sats} sats)`,
+      { proposal_id: proposal.id, recipient: proposal.recipient, amount_sats: proposal.amount_sats, cadence: payload.cadence, cap_sats: payload.cap_sats }),
+  ];
+}
+
+export function cancelStream(db: D1Database, stream: any, actor: string, reason: string): D1PreparedStatement[] {
+  return [
+    db.prepare(
+      `UPDATE streams SET status = 'cancelled', pause_reason = NULL, ended_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ?`
+    ).bind(stream.id),
+    activity(db, stream.dao_id, actor, 'stream_cancelled',
+      `Stream #${stream.id} to ${stream.recipient} cancelled after ${stream.paid_sats} sats: ${reason}`,
+      { stream_id: stream.id, recipient: stream.recipient, paid_sats: stream.paid_sats, reason }),
+  ];
+}
+
+// Cancel every live stream — used when a DAO dissolves
+export async function cancelLiveStreams(db: D1Database, daoId: string | number, reason: string): Promise<D1PreparedStatement[]> {
+  const live = await db
+    .prepare(`SELECT * FROM streams WHERE dao_id = ? AND status IN (${LIVE.map(() => '?').join(', ')})`)
+    .bind(daoId, ...LIVE).all();
+  return (live.results as any[]).flatMap(s => cancelStream(db, s, 'system', reason));
+}
+
+// Cron: pay the next installment of every due stream
+export async function payDueStreams(db: D1Database, limit = 50): Promise<number> {
+  const due = await db
+    .prepare(
+      `SELECT s.*, daos.spend_limit_sats FROM streams s JOIN daos ON daos.id = s.dao_id
+       WHERE s.status IN ('active', 'paused') AND s.next_payment_at <= datetime('now')
+       ORDER BY s.next_payment_at LIMIT ?`
+    )
+    .bind(limit).all();
+
+  for (const stream of due.results as any[]) await payInstallment(db, stream);
+  return due.results.length;
+}
+
+// Run a stream UPDATE only if the stream is still in the state this pass read;
+// the guard's parameters follow the statement's own
+async function claim(db: D1Database, stream: any, sql: string, ...params: unknown[]): Promise<boolean> {
+  const n = params.length;
+  const result = await db
+    .prepare(`${sql} AND status = ?${n + 1} AND next_payment_at = ?${n + 2} AND installments_paid = ?${n + 3}`)
+    .bind(...params, stream.status, stream.next_payment_at, stream.installments_paid).run();
+  return result.meta.changes > 0;
+}
+
+async function payInstallment(db: D1Database, stream: any): Promise<void> {
+  if (stream.end_at && stream.next_payment_at > stream.end_at) {
+    const completed = await claim(db, stream,
+      `UPDATE streams SET status = 'completed', pause_reason = NULL, ended_at = datetime('now'), updated_at = datetime('now')
+       WHERE id = ?1`, stream.id);
+    if (!completed) return;
+    await activity(db, stream.dao_id, 'system', 'stream_completed', `Stream #${stream.id} to ${stream.recipient} ended after ${stream.paid_sats} sats`,
+      { stream_id: stream.id, recipient: stream.recipient, paid_sats: stream.paid_sats }).run();
+    return;
+  }
+
+  const amount = Math.min(stream.amount_sats, stream.cap_sats - stream.paid_sats);
+  const balance = await ledgerBalance(db, stream.dao_id);
+  const blocked = stream.spend_limit_sats > 0 && amount > stream.spend_limit_sats
+    ? `installment of ${amount} sats exceeds the spend limit of ${stream.spend_limit_sats} sats`
+    : amount > balance ? `treasury has ${balance} sats, installment needs ${amount}` : null;
+
+  if (blocked) {
+    // Log the pause once, not on every pass while it stays blocked
+    if (stream.status === 'paused' && stream.pause_reason === blocked) return;
+    const paused = await claim(db, stream,
+      `UPDATE streams SET status = 'paused', pause_reason = ?2, updated_at = datetime('now') WHERE id = ?1`, stream.id, blocked);
+    if (!paused) return;
+    await activity(db, stream.dao_id, 'system', 'stream_paused', `Stream #${stream.id} to ${stream.recipient} paused: ${blocked}`,
+      { stream_id: stream.id, recipient: stream.recipient, reason: blocked }).run();
+    return;
+  }
+
+  // Claim the installment first: only the pass that advanced the stream pays it
+  const advanced = await claim(db, stream,
+    `UPDATE streams SET paid_sats = paid_sats + ?1, installments_paid = installments_paid + 1,
+       next_payment_at = datetime(next_payment_at, ?2),
+       status = CASE WHEN paid_sats + ?1 >= cap_sats OR (end_at IS NOT NULL AND datetime(next_payment_at, ?2) > end_at)
+         THEN 'completed' ELSE 'active' END,
+       ended_at = CASE WHEN paid_sats + ?1 >= cap_sats OR (end_at IS NOT NULL AND datetime(next_payment_at, ?2) > end_at)
+         THEN datetime('now') END,
+       pause_reason = NULL, updated_at = datetime('now')
+     WHERE id = ?3`, amount, STREAM_CADENCES[stream.cadence], stream.id);
+  if (!advanced) return;
+  await db.batch([
+    streamPayoutEntry(db, stream, amount, `Stream #${stream.id} installment ${stream.installments_paid + 1}`),
+    syncTreasury(db, stream.dao_id),
+    activity(db, stream.dao_id, 'system', 'stream_paid',
+      `${amount} sats paid to ${stream.recipient} (stream #${stream.id}, installment ${stream.installments_paid + 1}`
+      + `${stream.status === 'paused' ? ', resumed' : ''})`,
+      { stream_id: stream.id, recipient: stream.recipient, amount_sats: amount, installment: stream.installments_paid + 1 }),
+  ]);
+}
@@ -0,0 +1,99 @@
+// Proposal templates — reusable proposals a DAO fills in with parameters
+//
+// A template holds a title, description and action list containing {{name}}
+// placeholders. A proposal created from it supplies params for every
+// placeholder: a string that is exactly one placeholder takes the value as
+// given (so "{{amount}}" can become a number), any other is substituted as
+// text. The filled-in actions then go through the same validation as a
+// proposal written by hand, so a template can't produce anything a member
+// couldn't propose directly.
+
+import { ACTION_TYPES, MAX_ACTIONS, MULTI_ACTION_TYPES } from './execution';
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+
+export type ParamValue = string | number | boolean;
+
+export interface TemplateInput {
+  name: string;
+  title: string;
+  description: string | null;
+  actions: any[];
+  params: string[];
+}
+
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{(\w+)\}\}$/;
+
+function placeholders(value: unknown, found: Set<string>): void {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PLACEHOLDER)) found.add(match[1]);
+  } else if (Array.isArray(value)) {
+    value.forEach(v => placeholders(v, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(v => placeholders(v, found));
+  }
+}
+
+function fill(value: unknown, params: Record<string, ParamValue>): unknown {
+  if (typeof value === 'string') {
+    const whole = value.match(WHOLE_PLACEHOLDER);
+    if (whole) return params[whole[1]];
+    return value.replace(PLACEHOLDER, (_, name) => String(params[name]));
+  }
+  if (Array.isArray(value)) return value.map(v => fill(v, params));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fill(v, params)]));
+  }
+  return value;
+}
+
+export function validateTemplate(body: any): TemplateInput | string {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) return `name must be 1 to ${MAX_TEMPLATE_NAME_LENGTH} characters`;
+  if (typeof body.title !== 'string' || !body.title.trim()) return 'title is required';
+  if (body.description != null && typeof body.description !== 'string') return 'description must be a string';
+
+  const actions = body.actions ?? [];
+  if (!Array.isArray(actions) || actions.length > MAX_ACTIONS) return `actions must be a list of at most ${MAX_ACTIONS} actions`;
+  // One action becomes an ordinary proposal, several a multi-action one
+  const allowed: readonly string[] = actions.length > 1 ? MULTI_ACTION_TYPES : ACTION_TYPES.filter(t => t !== 'multi');
+  for (const [i, action] of actions.entries()) {
+    if (!action || typeof action !== 'object' || !allowed.includes(action.action_type)) {
+      return `actions[${i}]: action_type must be one of: ${allowed.join(', ')}`;
+    }
+  }
+
+  const found = new Set<string>();
+  placeholders([body.title, body.description, actions], found);
+  return { name, title: body.title, description: body.description || null, actions, params: [...found].sort() };
+}
+
+// The proposal fields a template produces: title, description and a body for validateAction
+export function fillTemplate(
+  template: any, params: unknown,
+): { title: string; description: string | null; action: any } | string {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) return 'params must be an object';
+  const values = params as Record<string, unknown>;
+  const expected: string[] = JSON.parse(template.params);
+
+  const missing = expected.filter(p => values[p] === undefined);
+  if (missing.length) return `Missing params: ${missing.join(', ')}`;
+  const unknown = Object.keys(values).filter(p => !expected.includes(p));
+  if (unknown.length) return `Unknown params: ${unknown.join(', ')}`;
+  for (const [key, value] of Object.entries(values)) {
+    if (!['string', 'number', 'boolean'].includes(typeof value)) return `params.${key} must be a string, number or boolean`;
+  }
+
+  const filled = values as Record<string, ParamValue>;
+  const actions = fill(JSON.parse(template.actions), filled) as any[];
+  return {
+    title: String(fill(template.title, filled)),
+    description: template.description ? String(fill(template.description, filled)) : null,
+    action: actions.length === 0 ? {} : actions.length === 1 ? actions[0] : { actions },
+  };
+}
+
+export function publicTemplate(row: any): Record<string, unknown> {
+  return { ...row, actions: JSON.parse(row.actions), params: JSON.parse(row.params) };
+}
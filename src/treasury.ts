@@ -0,0 +1,233 @@
+// Treasury ledger — double-entry: every entry debits one account and credits another
+//
+//   deposit     debit treasury            credit contributor:<addr>
+//   payout      debit payee:<addr>        credit treasury
+//   refund      debit contributor:<addr>  credit treasury
+//   adjustment  treasury <-> adjustments, either direction
+//   reserve     debit escrow:bounty:<id>  credit treasury
+//   release     debit treasury            credit escrow:bounty:<id>
+//
+// A bounty payout is a payout credited to its escrow account instead of the
+// treasury, since the reward left the treasury when it was reserved.
+//
+// daos.treasury_sats is a cache of the treasury account balance. Every batch
+// that writes an entry ends with syncTreasury() so the cache is recomputed
+// from the ledger, never incremented by hand.
+
+export const TREASURY = 'treasury';
+export const ENTRY_TYPES = ['deposit', 'payout', 'refund', 'adjustment', 'reserve', 'release'] as const;
+
+export type EntryType = typeof ENTRY_TYPES[number];
+
+export interface LedgerEntry {
+  type: EntryType;
+  debit: string;
+  credit: string;
+  amount: number;
+  counterparty?: string | null;
+  proposalId?: number | null;
+  txId?: string | null;
+  memo?: string | null;
+  streamId?: number | null;
+}
+
+// Signed effect of an entry on the treasury account, for use in SQL aggregates
+const TREASURY_DELTA = `CASE WHEN debit_account = '${TREASURY}' THEN amount_sats
+  WHEN credit_account = '${TREASURY}' THEN -amount_sats ELSE 0 END`;
+
+export function ledgerEntry(db: D1Database, daoId: string | number, e: LedgerEntry): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO treasury_entries
+         (dao_id, entry_type, debit_account, credit_account, amount_sats, counterparty, proposal_id, tx_id, memo, stream_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(daoId, e.type, e.debit, e.credit, e.amount, e.counterparty ?? null, e.proposalId ?? null, e.txId ?? null, e.memo ?? null,
+      e.streamId ?? null);
+}
+
+export function depositEntry(db: D1Database, daoId: string | number, funder: string, amount: number, txId?: string | null): D1PreparedStatement {
+  return ledgerEntry(db, daoId, {
+    type: 'deposit', debit: TREASURY, credit: `contributor:${funder}`, amount, counterparty: funder, txId,
+  });
+}
+
+export function payoutEntry(db: D1Database, daoId: string | number, recipient: string, amount: number, proposalId: number | null, memo: string, refund = false): D1PreparedStatement {
+  return ledgerEntry(db, daoId, {
+    type: refund ? 'refund' : 'payout',
+    debit: `${refund ? 'contributor' : 'payee'}:${recipient}`,
+    credit: TREASURY,
+    amount, counterparty: recipient, proposalId, memo,
+  });
+}
+
+// One installment of a payment stream, tagged with the stream it belongs to
+export function streamPayoutEntry(db: D1Database, stream: any, amount: number, memo: string): D1PreparedStatement {
+  return ledgerEntry(db, stream.dao_id, {
+    type: 'payout', debit: `payee:${stream.recipient}`, credit: TREASURY, amount,
+    counterparty: stream.recipient, proposalId: stream.proposal_id, memo, streamId: stream.id,
+  });
+}
+
+export function escrowAccount(bountyId: string | number): string {
+  return `escrow:bounty:${bountyId}`;
+}
+
+// Reserve a bounty's reward. Selected from the bounty row so it can share a batch with the INSERT that creates it.
+export function reserveBountyEntry(db: D1Database, proposalId: number): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO treasury_entries (dao_id, entry_type, debit_account, credit_account, amount_sats, proposal_id, memo)
+       SELECT dao_id, 'reserve', 'escrow:bounty:' || id, ?, reward_sats, proposal_id, 'Reserved for bounty "' || title || '"'
+       FROM bounties WHERE proposal_id = ?`
+    )
+    .bind(TREASURY, proposalId);
+}
+
+// Entries that empty a bounty's escrow. Selected only while nothing has been
+// credited to the escrow account yet, so a payout and a release that race can't both land.
+function drainEscrowEntry(db: D1Database, bounty: any, e: LedgerEntry): D1PreparedStatement {
+  return db
+    .prepare(
+      `INSERT INTO treasury_entries (dao_id, entry_type, debit_account, credit_account, amount_sats, counterparty, proposal_id, memo)
+       SELECT ?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8
+       WHERE NOT EXISTS (SELECT 1 FROM treasury_entries WHERE dao_id = ?1 AND credit_account = ?4)`
+    )
+    .bind(bounty.dao_id, e.type, e.debit, e.credit, e.amount, e.counterparty ?? null, e.proposalId ?? null, e.memo ?? null);
+}
+
+export function releaseBountyEntry(db: D1Database, bounty: any, memo: string): D1PreparedStatement {
+  return drainEscrowEntry(db, bounty, {
+    type: 'release', debit: TREASURY, credit: escrowAccount(bounty.id), amount: bounty.reward_sats, proposalId: bounty.proposal_id, memo,
+  });
+}
+
+export function bountyPayoutEntry(db: D1Database, bounty: any, memo: string): D1PreparedStatement {
+  return drainEscrowEntry(db, bounty, {
+    type: 'payout', debit: `payee:${bounty.assignee}`, credit: escrowAccount(bounty.id), amount: bounty.reward_sats,
+    counterparty: bounty.assignee, proposalId: bounty.proposal_id, memo,
+  });
+}
+
+// Recompute the cached treasury_sats from the ledger
+export function syncTreasury(db: D1Database, daoId: string | number): D1PreparedStatement {
+  return db
+    .prepare(
+      `UPDATE daos SET treasury_sats = (
+         SELECT COALESCE(SUM(${TREASURY_DELTA}), 0) FROM treasury_entries WHERE dao_id = ?
+       ), updated_at = datetime('now') WHERE id = ?`
+    )
+    .bind(daoId, daoId);
+}
+
+export async function ledgerBalance(db: D1Database, daoId: string | number): Promise<number> {
+  const row = await db
+    .prepare(`SELECT COALESCE(SUM(${TREASURY_DELTA}), 0) as balance FROM treasury_entries WHERE dao_id = ?`)
+    .bind(daoId).first<{ balance: number }>();
+  return row?.balance || 0;
+}
+
+// Sats held in bounty escrow accounts
+export async function escrowBalance(db: D1Database, daoId: string | number): Promise<number> {
+  const row = await db
+    .prepare(
+      `SELECT COALESCE(SUM(CASE WHEN debit_account LIKE 'escrow:%' THEN amount_sats
+         WHEN credit_account LIKE 'escrow:%' THEN -amount_sats ELSE 0 END), 0) as balance
+       FROM treasury_entries WHERE dao_id = ?`
+    )
+    .bind(daoId).first<{ balance: number }>();
+  return row?.balance || 0;
+}
+
+export async function ledgerTotals(db: D1Database, daoId: string | number): Promise<Record<EntryType, number>> {
+  const rows = await db
+    .prepare('SELECT entry_type, SUM(amount_sats) as total FROM treasury_entries WHERE dao_id = ? GROUP BY entry_type')
+    .bind(daoId).all<{ entry_type: EntryType; total: number }>();
+  const totals = { deposit: 0, payout: 0, refund: 0, adjustment: 0, reserve: 0, release: 0 };
+  for (const r of rows.results) totals[r.entry_type] = r.total;
+  return totals;
+}
+
+// Entries newest first, each with the treasury balance right after it
+export async function ledgerEntries(db: D1Database, daoId: string | number, limit: number, offset: number, type?: string | null): Promise<any[]> {
+  const rows = await db
+    .prepare(
+      `SELECT * FROM (
+         SELECT *, SUM(${TREASURY_DELTA}) OVER (ORDER BY id) as balance_after_sats
+         FROM treasury_entries WHERE dao_id = ?
+       ) WHERE (? IS NULL OR entry_type = ?) ORDER BY id DESC LIMIT ? OFFSET ?`
+    )
+    .bind(daoId, type ?? null, type ?? null, limit, offset).all();
+  return rows.results;
+}
+
+// Per-address contribution totals (deposits less refunds)
+export async function contributions(db: D1Database, daoId: string | number): Promise<any[]> {
+  const rows = await db
+    .prepare(
+      `SELECT counterparty as address,
+         SUM(CASE WHEN entry_type = 'deposit' THEN amount_sats ELSE 0 END) as deposited_sats,
+         SUM(CASE WHEN entry_type = 'refund' THEN amount_sats ELSE 0 END) as refunded_sats,
+         SUM(CASE WHEN entry_type = 'deposit' THEN amount_sats WHEN entry_type = 'refund' THEN -amount_sats ELSE 0 END) as net_sats,
+         SUM(CASE WHEN entry_type = 'deposit' THEN 1 ELSE 0 END) as deposit_count,
+         MAX(created_at) as last_entry_at
+       FROM treasury_entries
+       WHERE dao_id = ? AND entry_type IN ('deposit', 'refund') AND counterparty IS NOT NULL
+       GROUP BY counterparty ORDER BY net_sats DESC`
+    )
+    .bind(daoId).all();
+  return rows.results;
+}
+
+// Pro-rata split of the treasury balance by net contribution. Shares are floored
+// to whole sats and the leftover sats go to the largest remainders.
+export async function distributionPlan(db: D1Database, daoId: string | number): Promise<{
+  balance_sats: number;
+  contributed_sats: number;
+  distributions: { address: string; net_sats: number; share_pct: number; amount_sats: number }[];
+  undistributed_sats: number;
+}> {
+  const balance = await ledgerBalance(db, daoId);
+  const contributors = (await contributions(db, daoId)).filter(c => c.net_sats > 0);
+  const contributed = contributors.reduce((sum, c) => sum + c.net_sats, 0);
+  if (!contributed || balance <= 0) {
+    return { balance_sats: balance, contributed_sats: contributed, distributions: [], undistributed_sats: Math.max(balance, 0) };
+  }
+
+  // BigInt: balance × contribution can exceed 2^53
+  const shares = contributors.map(c => {
+    const scaled = BigInt(balance) * BigInt(c.net_sats);
+    return { c, amount: Number(scaled / BigInt(contributed)), remainder: scaled % BigInt(contributed) };
+  });
+  let leftover = balance - shares.reduce((sum, s) => sum + s.amount, 0);
+  const byRemainder = [...shares].sort((a, b) =>
+    a.remainder === b.remainder ? b.c.net_sats - a.c.net_sats : (b.remainder > a.remainder ? 1 : -1));
+  for (const s of byRemainder) {
+    if (!leftover) break;
+    s.amount++;
+    leftover--;
+  }
+
+  return {
+    balance_sats: balance,
+    contributed_sats: contributed,
+    distributions: shares.map(s => ({
+      address: s.c.address, net_sats: s.c.net_sats,
+      share_pct: Math.round((s.c.net_sats / contributed) * 10000) / 100, amount_sats: s.amount,
+    })),
+    undistributed_sats: 0,
+  };
+}
+
+const CSV_COLUMNS = [
+  'id', 'created_at', 'entry_type', 'debit_account', 'credit_account', 'amount_sats',
+  'balance_after_sats', 'counterparty', 'proposal_id', 'tx_id', 'memo',
+];
+
+export function entriesToCsv(entries: any[]): string {
+  const cell = (v: unknown) => {
+    const s = v === null || v === undefined ? '' : String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [CSV_COLUMNS.join(','), ...entries.map(e => CSV_COLUMNS.map(c => cell(e[c])).join(','))].join('\r\n') + '\r\n';
+}
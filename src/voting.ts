@@ -0,0 +1,53 @@
+// Voting strategies — how much a member's vote weighs
+//
+//   equal         1 per member
+//   contribution  net sats contributed (deposits less refunds)
+//   quadratic     floor(sqrt(net sats contributed))
+//   role          ROLE_WEIGHTS by member role
+//
+// Contributions count under the member's btc_address and stx_address. A vote
+// stores the voter's weight when it was cast; members who haven't voted
+// directly weigh in at their current weight.
+//
+// Votes are yes, no or abstain. Abstaining counts towards quorum but not
+// approval. A vote can be changed, with a new weight, until the proposal closes.
+
+import { contributions } from './treasury';
+
+export const VOTING_STRATEGIES = ['equal', 'contribution', 'quadratic', 'role'] as const;
+export type VotingStrategy = typeof VOTING_STRATEGIES[number];
+
+export const VOTE_CHOICES = ['yes', 'no', 'abstain'] as const;
+export type VoteChoice = typeof VOTE_CHOICES[number];
+
+export const MAX_REASON_LENGTH = 1000;
+
+export const ROLE_WEIGHTS: Record<string, number> = { admin: 2, member: 1 };
+
+export function isStrategy(value: unknown): value is VotingStrategy {
+  return (VOTING_STRATEGIES as readonly unknown[]).includes(value);
+}
+
+// Current weight of every member, keyed by btc_address
+export async function memberWeights(db: D1Database, dao: any): Promise<Map<string, number>> {
+  const members = await db
+    .prepare('SELECT btc_address, stx_address, role FROM members WHERE dao_id = ?')
+    .bind(dao.id).all<{ btc_address: string; stx_address: string | null; role: string }>();
+  const strategy: VotingStrategy = dao.voting_strategy || 'equal';
+
+  const contributed = new Map<string, number>();
+  if (strategy === 'contribution' || strategy === 'quadratic') {
+    for (const c of await contributions(db, dao.id)) contributed.set(c.address, Math.max(c.net_sats, 0));
+  }
+
+  const weights = new Map<string, number>();
+  for (const m of members.results) {
+    const sats = (contributed.get(m.btc_address) || 0) + (m.stx_address ? contributed.get(m.stx_address) || 0 : 0);
+    weights.set(m.btc_address,
+      strategy === 'contribution' ? sats
+        : strategy === 'quadratic' ? Math.floor(Math.sqrt(sats))
+        : strategy === 'role' ? ROLE_WEIGHTS[m.role] ?? 1
+        : 1);
+  }
+  return weights;
+}
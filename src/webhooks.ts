@@ -0,0 +1,163 @@
+// Outbound webhooks — DAO events pushed to subscriber URLs
+//
+// webhookEvent() returns an INSERT that fans an event out to every matching
+// subscription as a pending delivery, so it can ride in the same batch as the
+// activity row it mirrors. deliverDue() sends pending deliveries; failures are
+// retried with exponential backoff until MAX_ATTEMPTS, then marked 'failed'
+// and kept for replay. A delivery is claimed before it is sent by pushing its
+// next_attempt_at out by CLAIM_LEASE_SECONDS, so overlapping runs (the cron and
+// a request's waitUntil) don't both send it; a run that dies mid-send leaves it
+// to be retried once the lease runs out.
+//
+// Each POST carries:
+//   X-DAO-Event        event type
+//   X-DAO-Delivery     delivery id
+//   X-DAO-Timestamp    unix seconds
+//   X-DAO-Signature    sha256=<hex HMAC-SHA256(secret, "<timestamp>.<body>")>
+
+export const EVENT_TYPES = ['created', 'invited', 'joined', 'proposed', 'voted', 'passed', 'funded'] as const;
+export type EventType = typeof EVENT_TYPES[number];
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_SECONDS = 30;
+const MAX_BACKOFF_SECONDS = 6 * 3600;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const CLAIM_LEASE_SECONDS = 60;
+
+export function webhookEvent(db: D1Database, daoId: string | number, event: EventType, data: Record<string, unknown>): D1PreparedStatement {
+  const payload = JSON.stringify({
+    id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+    event,
+    dao_id: Number(daoId),
+    occurred_at: new Date().toISOString(),
+    data,
+  });
+  return db
+    .prepare(
+      `INSERT INTO webhook_deliveries (subscription_id, event, payload)
+       SELECT id, ?, ? FROM webhook_subscriptions
+       WHERE active = 1 AND (dao_id = ? OR dao_id IS NULL) AND (',' || events || ',') LIKE ?`
+    )
+    .bind(event, payload, daoId, `%,${event},%`);
+}
+
+export function parseEvents(value: unknown): EventType[] | string {
+  const events = value === undefined ? [...EVENT_TYPES] : value;
+  if (!Array.isArray(events) || !events.length) return 'events must be a non-empty array';
+  const unknown = events.filter(e => !(EVENT_TYPES as readonly string[]).includes(e));
+  if (unknown.length) return `Unknown events: ${unknown.join(', ')}. Allowed: ${EVENT_TYPES.join(', ')}`;
+  return [...new Set(events as EventType[])];
+}
+
+export function validWebhookUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function newSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return 'whsec_' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Subscription as returned by the API — the secret is only shown on creation
+export function publicSubscription(sub: any): any {
+  const { secret, ...rest } = sub;
+  return { ...rest, events: String(sub.events).split(','), active: !!sub.active };
+}
+
+export async function sign(secret: string, timestamp: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(mac), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Send every pending delivery whose retry time has come
+export async function deliverDue(db: D1Database, limit = 25): Promise<number> {
+  const due = await db
+    .prepare(
+      `SELECT d.*, s.url, s.secret FROM webhook_deliveries d
+       JOIN webhook_subscriptions s ON s.id = d.subscription_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= datetime('now') AND s.active = 1
+       ORDER BY d.next_attempt_at LIMIT ?`
+    )
+    .bind(limit).all();
+
+  const sent = await Promise.all((due.results as any[]).map(async d => {
+    if (!(await claim(db, d))) return false;
+    await attempt(db, d);
+    return true;
+  }));
+  return sent.filter(Boolean).length;
+}
+
+// Take a delivery for this run; false when another run already has it
+async function claim(db: D1Database, delivery: any): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `UPDATE webhook_deliveries SET next_attempt_at = datetime('now', ?)
+       WHERE id = ? AND status = 'pending' AND next_attempt_at = ?`
+    )
+    .bind(`+${CLAIM_LEASE_SECONDS} seconds`, delivery.id, delivery.next_attempt_at).run();
+  return result.meta.changes > 0;
+}
+
+async function attempt(db: D1Database, delivery: any): Promise<void> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  let status: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const res = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'dao-factory-webhooks',
+        'X-DAO-Event': delivery.event,
+        'X-DAO-Delivery': String(delivery.id),
+        'X-DAO-Timestamp': timestamp,
+        'X-DAO-Signature': `sha256=${await sign(delivery.secret, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    status = res.status;
+    if (!res.ok) error = `HTTP ${res.status}`;
+  } catch (e: any) {
+    error = e.message || 'delivery failed';
+  }
+
+  if (!error) {
+    await db
+      .prepare(
+        `UPDATE webhook_deliveries SET status = 'delivered', attempts = attempts + 1, response_status = ?,
+           last_error = NULL, delivered_at = datetime('now') WHERE id = ?`
+      )
+      .bind(status, delivery.id).run();
+    return;
+  }
+
+  const attempts = delivery.attempts + 1;
+  const backoff = Math.min(BASE_BACKOFF_SECONDS * 2 ** (attempts - 1), MAX_BACKOFF_SECONDS);
+  await db
+    .prepare(
+      `UPDATE webhook_deliveries SET status = ?, attempts = ?, response_status = ?, last_error = ?,
+         next_attempt_at = datetime('now', ?) WHERE id = ?`
+    )
+    .bind(attempts >= MAX_ATTEMPTS ? 'failed' : 'pending', attempts, status, error, `+${backoff} seconds`, delivery.id)
+    .run();
+}
+
+// Put failed deliveries back in the queue, optionally just one of them
+export async function replayDeliveries(db: D1Database, subscriptionId: string | number, deliveryId?: string | number): Promise<number> {
+  const result = await db
+    .prepare(
+      `UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = datetime('now')
+       WHERE subscription_id = ? AND status = 'failed' AND (? IS NULL OR id = ?)`
+    )
+    .bind(subscriptionId, deliveryId ?? null, deliveryId ?? null).run();
+  return result.meta.changes;
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { verifyMessage, verifyRequest } from '../src/auth';
+
+// Published BIP-322 and BIP-137 vectors
+const BIP322_P2WPKH = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l';
+const BIP322_P2TR = 'bc1ppv609nr0vr25u07u95waq5lucwfm6tde4nydujnu8npg4q75mr5sxq8lt3';
+const BIP137_P2PKH = '1F3sAm6ZtwLAUnj7d38pGFxtP3RVEvtsbV';
+
+// Deterministic (RFC 6979) signatures by the key sha256("dao-factory test key")
+const BTC = 'bc1qpak2rpm4gqm0xpqq9xetn63hyzq8cu94jw5pwr';
+const STX = 'SP7PS8C7EN03DWR400MV5EFA6WG80Z3GPMD90HDW';
+const PATH = '/api/daos/1/proposals';
+const BODY = `{"proposer":"${BTC}","title":"Fund the meetup"}`;
+const NONCE = 'vector-nonce-01';
+const TIMESTAMP = 1767225600;
+const BTC_SIG = 'JyJTCHzE30X64OgLPhmUdOxNsBPqYPMjvPgXBgqCaUqwRgXka9GtgZc8oHCCMhQdORLkATDSIILwzkRAg6Jl6C0=';
+const STX_SIG = '14b83f320947d95fa897d2291e10b65812c4aa0cd4f096bc716e5eff034fd1167649c4908a4f8208a4ad72369a36060d5b08ec448a1af3aba627af14de41d67601';
+
+describe('verifyMessage', () => {
+  it('accepts BIP-322 simple signatures', () => {
+    expect(verifyMessage(BIP322_P2WPKH, 'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=', 'Hello World')).toBe(true);
+    expect(verifyMessage(BIP322_P2WPKH, 'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=', '')).toBe(true);
+    expect(verifyMessage(BIP322_P2TR, 'AUHd69PrJQEv+oKTfZ8l+WROBHuy9HKrbFCJu7U1iK2iiEy1vMU5EfMtjc+VSHM7aU0SDbak5IUZRVno2P5mjSafAQ==', 'Hello World')).toBe(true);
+  });
+
+  it('accepts BIP-137 signatures', () => {
+    expect(verifyMessage(BIP137_P2PKH, 'H9L5yLFjti0QTHhPyFrZCT1V/MMnBtXKmoiKDZ78NDBjERki6ZTQZdSMCtkgoNmp17By9ItJr8o7ChX0XxY91nk=', 'This is an example of a signed message.')).toBe(true);
+  });
+
+  it('rejects a signature over a different message or by a different address', () => {
+    const sig = 'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=';
+    expect(verifyMessage(BIP322_P2WPKH, sig, 'Hello World!')).toBe(false);
+    expect(verifyMessage(BTC, sig, 'Hello World')).toBe(false);
+  });
+
+  it('returns false on malformed input instead of throwing', () => {
+    expect(verifyMessage('not-an-address', 'AAAA', 'x')).toBe(false);
+    expect(verifyMessage(STX, 'zz', 'x')).toBe(false);
+  });
+});
+
+describe('verifyRequest', () => {
+  // Just enough of D1 for the nonce burn
+  function nonceDb() {
+    const burned = new Set<string>();
+    return {
+      prepare: () => ({
+        bind: (signer: string, nonce: string) => ({
+          run: async () => {
+            const key = `${signer}:${nonce}`;
+            const changes = burned.has(key) ? 0 : 1;
+            burned.add(key);
+            return { meta: { changes } };
+          },
+        }),
+      }),
+    } as unknown as D1Database;
+  }
+
+  function signed(signer: string, signature: string, body = BODY, headers: Record<string, string> = {}) {
+    return new Request(`https://dao.example${PATH}`, {
+      method: 'POST',
+      headers: { 'X-Signer': signer, 'X-Signature': signature, 'X-Nonce': NONCE, 'X-Timestamp': String(TIMESTAMP), ...headers },
+      body,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(TIMESTAMP * 1000);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a BTC-signed request and returns its body', async () => {
+    const result = await verifyRequest(signed(BTC, BTC_SIG), nonceDb(), PATH);
+    expect(result).toEqual({ ok: true, signer: BTC, body: JSON.parse(BODY) });
+  });
+
+  it('accepts an STX-signed request', async () => {
+    const result = await verifyRequest(signed(STX, STX_SIG), nonceDb(), PATH);
+    expect(result.ok && result.signer).toBe(STX);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const db = nonceDb();
+    expect((await verifyRequest(signed(BTC, BTC_SIG), db, PATH)).ok).toBe(true);
+    expect(await verifyRequest(signed(BTC, BTC_SIG), db, PATH)).toMatchObject({ ok: false, code: 'nonce_reused' });
+  });
+
+  it('rejects a changed body, path or signer', async () => {
+    expect(await verifyRequest(signed(BTC, BTC_SIG, BODY + ' '), nonceDb(), PATH)).toMatchObject({ ok: false, code: 'signature_invalid' });
+    expect(await verifyRequest(signed(BTC, BTC_SIG), nonceDb(), '/api/daos/2/proposals')).toMatchObject({ ok: false, code: 'signature_invalid' });
+    expect(await verifyRequest(signed(STX, BTC_SIG), nonceDb(), PATH)).toMatchObject({ ok: false, code: 'signature_invalid' });
+  });
+
+  it('rejects missing headers, bad nonces and stale timestamps', async () => {
+    const bare = new Request(`https://dao.example${PATH}`, { method: 'POST', body: BODY });
+    expect(await verifyRequest(bare, nonceDb(), PATH)).toMatchObject({ ok: false, code: 'signature_missing' });
+    expect(await verifyRequest(signed(BTC, BTC_SIG, BODY, { 'X-Nonce': 'short' }), nonceDb(), PATH)).toMatchObject({ ok: false, code: 'signature_invalid' });
+    vi.setSystemTime((TIMESTAMP + 301) * 1000);
+    expect(await verifyRequest(signed(BTC, BTC_SIG), nonceDb(), PATH)).toMatchObject({ ok: false, code: 'signature_expired' });
+  });
+});
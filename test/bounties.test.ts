@@ -0,0 +1,51 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { cancelBounty, payBounty, postBounty } from '../src/bounties';
+import { depositEntry, escrowBalance, ledgerBalance } from '../src/treasury';
+import { testDb } from './db';
+
+describe('bounty escrow', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let bounty: any;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    const dao = await db.prepare('INSERT INTO daos (name, description, creator) VALUES (?, ?, ?) RETURNING *')
+      .bind(`D${crypto.randomUUID()}`, 'd', 'bc1qalice').first<any>();
+    await depositEntry(db, dao.id, 'bc1qalice', 1000).run();
+    const proposal = await db.prepare(
+      `INSERT INTO proposals (dao_id, proposer, title, action_type, amount_sats, status) VALUES (?, ?, ?, 'bounty', 300, 'passed') RETURNING *`
+    ).bind(dao.id, 'bc1qalice', 'Write docs').first();
+    await db.batch(postBounty(db, dao, proposal));
+    bounty = await db.prepare(`UPDATE bounties SET status = 'submitted', assignee = ? WHERE proposal_id = ? RETURNING *`)
+      .bind('bc1qbob', proposal!.id).first();
+  });
+
+  it('reserves the reward out of the treasury', async () => {
+    expect(await ledgerBalance(db, bounty.dao_id)).toBe(700);
+    expect(await escrowBalance(db, bounty.dao_id)).toBe(300);
+  });
+
+  it('lets only one of a racing payment and cancellation change the bounty', async () => {
+    const [pay] = payBounty(db, bounty, 'bc1qalice', null);
+    const [cancel] = cancelBounty(db, bounty, 'bc1qalice', 'no longer needed');
+    const results = await Promise.all([pay.run(), cancel.run()]);
+    expect(results.map(r => r.meta.changes).sort()).toEqual([0, 1]);
+  });
+
+  it('drains the escrow once even if both sets of entries are applied', async () => {
+    await Promise.all([
+      db.batch(payBounty(db, bounty, 'bc1qalice', null).slice(1)),
+      db.batch(cancelBounty(db, bounty, 'bc1qalice', 'no longer needed').slice(1)),
+    ]);
+    expect(await escrowBalance(db, bounty.dao_id)).toBe(0);
+    const drained = await db.prepare('SELECT COUNT(*) as n FROM treasury_entries WHERE credit_account = ?')
+      .bind(`escrow:bounty:${bounty.id}`).first<{ n: number }>();
+    expect(drained!.n).toBe(1);
+    expect([700, 1000]).toContain(await ledgerBalance(db, bounty.dao_id));
+  });
+});
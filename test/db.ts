@@ -0,0 +1,34 @@
+// Fresh in-memory D1 with every migration applied, backed by Miniflare
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { Miniflare } from 'miniflare';
+
+const MIGRATIONS = join(__dirname, '..', 'migrations');
+
+// Split a migration into statements; trigger bodies keep their inner semicolons
+function statements(sql: string): string[] {
+  const out: string[] = [];
+  let current: string[] = [];
+  let inTrigger = false;
+  for (const line of sql.split('\n')) {
+    if (!current.length && (!line.trim() || line.trim().startsWith('--'))) continue;
+    current.push(line);
+    if (/\bBEGIN$/i.test(line.trim())) inTrigger = true;
+    const ends = inTrigger ? /^END;$/i.test(line.trim()) : line.trim().endsWith(';');
+    if (ends) {
+      out.push(current.join('\n'));
+      current = [];
+      inTrigger = false;
+    }
+  }
+  return out;
+}
+
+export async function testDb(): Promise<{ db: D1Database; dispose: () => Promise<void> }> {
+  const mf = new Miniflare({ modules: true, script: 'export default {}', d1Databases: ['DB'] });
+  const db = await mf.getD1Database('DB') as unknown as D1Database;
+  for (const file of readdirSync(MIGRATIONS).filter(f => f.endsWith('.sql')).sort()) {
+    await db.batch(statements(readFileSync(join(MIGRATIONS, file), 'utf8')).map(s => db.prepare(s)));
+  }
+  return { db, dispose: () => mf.dispose() };
+}
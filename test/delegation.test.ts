@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { tallyProposal } from '../src/delegation';
+import { testDb } from './db';
+
+const [A, B, C, D] = ['bc1qalice', 'bc1qbob', 'bc1qcarol', 'bc1qdave'];
+
+describe('tallyProposal', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let proposal: any;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    await db.batch(['delegations', 'votes', 'proposals', 'members', 'daos'].map(t => db.prepare(`DELETE FROM ${t}`)));
+    const dao = await db.prepare('INSERT INTO daos (name, description, creator) VALUES (?, ?, ?) RETURNING id').bind('D', 'd', A).first<{ id: number }>();
+    await db.batch([A, B, C, D].map(m => db.prepare('INSERT INTO members (dao_id, btc_address) VALUES (?, ?)').bind(dao!.id, m)));
+    proposal = await db.prepare('INSERT INTO proposals (dao_id, proposer, title) VALUES (?, ?, ?) RETURNING *').bind(dao!.id, A, 'p').first();
+  });
+
+  const delegate = (from: string, to: string, proposalId: number | null = null) =>
+    db.prepare('INSERT INTO delegations (dao_id, delegator, delegate, proposal_id) VALUES (?, ?, ?, ?)').bind(proposal.dao_id, from, to, proposalId).run();
+  const vote = (voter: string, choice: string) =>
+    db.prepare('INSERT INTO votes (proposal_id, dao_id, voter, vote) VALUES (?, ?, ?, ?)').bind(proposal.id, proposal.dao_id, voter, choice).run();
+
+  it('counts a delegation chain for the member at its end', async () => {
+    await delegate(A, B);
+    await delegate(B, C);
+    await vote(C, 'yes');
+    const tally = await tallyProposal(db, proposal);
+    expect(tally).toMatchObject({ votes_for: 3, votes_against: 0, total_weight: 4, weights: { [C]: 3 } });
+  });
+
+  it('counts a loop with no voter in it for nobody', async () => {
+    await delegate(A, B);
+    await delegate(B, A);
+    await vote(D, 'no');
+    const tally = await tallyProposal(db, proposal);
+    expect(tally).toMatchObject({ votes_for: 0, votes_against: 1, total_weight: 4, weights: { [D]: 1 } });
+  });
+
+  it('stops at a loop further down the chain', async () => {
+    await delegate(A, B);
+    await delegate(B, C);
+    await delegate(C, B);
+    const tally = await tallyProposal(db, proposal);
+    expect(tally).toMatchObject({ votes_for: 0, votes_against: 0, votes_abstain: 0, total_weight: 4, weights: {} });
+  });
+
+  it('lets a direct vote break a loop', async () => {
+    await delegate(A, B);
+    await delegate(B, A);
+    await vote(B, 'abstain');
+    const tally = await tallyProposal(db, proposal);
+    expect(tally).toMatchObject({ votes_abstain: 2, weights: { [B]: 2 } });
+  });
+
+  it('prefers a proposal-scoped delegation over the DAO-wide one', async () => {
+    await delegate(A, B);
+    await delegate(A, C, proposal.id);
+    await vote(B, 'yes');
+    await vote(C, 'no');
+    const tally = await tallyProposal(db, proposal);
+    expect(tally).toMatchObject({ votes_for: 1, votes_against: 2, weights: { [B]: 1, [C]: 2 } });
+  });
+});
@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { StaticChainIndexer } from '../src/chain';
+import { settleDeposit } from '../src/deposits';
+import { ledgerBalance } from '../src/treasury';
+import { testDb } from './db';
+
+const FUNDER = 'SP7PS8C7EN03DWR400MV5EFA6WG80Z3GPMD90HDW';
+const TREASURY_ADDRESS = 'SP1HTBVD3JG9C05J7HBJTHGR0GGW7KXW28M5JS8QE';
+const TX = 'a'.repeat(64);
+const BAD_TX = 'b'.repeat(64);
+
+const indexer = new StaticChainIndexer({
+  [TX]: { tx_id: TX, status: 'success', block_height: 100, confirmations: 6, transfers: [{ sender: FUNDER, recipient: TREASURY_ADDRESS, amount_sats: 500 }] },
+  [BAD_TX]: { tx_id: BAD_TX, status: 'failed', block_height: 100, confirmations: 6, transfers: [] },
+});
+
+describe('settleDeposit', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let dao: any;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    await db.batch(['deposits', 'treasury_entries', 'activity'].map(t => db.prepare(`DELETE FROM ${t}`)));
+    dao = await db.prepare('INSERT INTO daos (name, description, creator, treasury_address) VALUES (?, ?, ?, ?) RETURNING *')
+      .bind(`D${crypto.randomUUID()}`, 'd', FUNDER, TREASURY_ADDRESS).first();
+  });
+
+  const pending = (txId: string) =>
+    db.prepare('INSERT INTO deposits (dao_id, funder, amount_sats, tx_id) VALUES (?, ?, ?, ?) RETURNING *')
+      .bind(dao.id, FUNDER, 500, txId).first<any>();
+  const count = async (sql: string) => (await db.prepare(sql).first<{ n: number }>())!.n;
+
+  it('credits a deposit once when overlapping checks confirm it', async () => {
+    const deposit = await pending(TX);
+    const checks = await Promise.all([1, 2, 3].map(() => settleDeposit(db, indexer, deposit, dao, 3)));
+    expect(checks.map(c => c.status)).toEqual(['confirmed', 'confirmed', 'confirmed']);
+    expect(await ledgerBalance(db, dao.id)).toBe(500);
+    expect(await count('SELECT COUNT(*) as n FROM treasury_entries')).toBe(1);
+    expect(await count(`SELECT COUNT(*) as n FROM activity WHERE action = 'funded'`)).toBe(1);
+  });
+
+  it('leaves a settled deposit alone when an older copy is checked again', async () => {
+    const deposit = await pending(TX);
+    await settleDeposit(db, indexer, deposit, dao, 3);
+    expect(await settleDeposit(db, indexer, deposit, dao, 3)).toEqual({ status: 'confirmed', confirmations: 6 });
+    expect(await ledgerBalance(db, dao.id)).toBe(500);
+  });
+
+  it('logs a rejection once', async () => {
+    const deposit = await pending(BAD_TX);
+    await Promise.all([settleDeposit(db, indexer, deposit, dao, 3), settleDeposit(db, indexer, deposit, dao, 3)]);
+    expect(await count(`SELECT COUNT(*) as n FROM activity WHERE action = 'deposit_rejected'`)).toBe(1);
+    expect(await ledgerBalance(db, dao.id)).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { validateAction } from '../src/execution';
+import { settleProposal } from '../src/governance';
+import { depositEntry, ledgerBalance } from '../src/treasury';
+import { testDb } from './db';
+
+describe('settleProposal', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let dao: any;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    dao = await db.prepare('INSERT INTO daos (name, description, creator) VALUES (?, ?, ?) RETURNING *')
+      .bind(`D${crypto.randomUUID()}`, 'd', 'bc1qalice').first();
+    await db.prepare('INSERT INTO members (dao_id, btc_address, role) VALUES (?, ?, ?)').bind(dao.id, 'bc1qalice', 'admin').run();
+    await depositEntry(db, dao.id, 'bc1qalice', 1000).run();
+  });
+
+  const spending = (amount: number, votes: { for: number; against: number }) =>
+    db.prepare(
+      `INSERT INTO proposals (dao_id, proposer, title, action_type, amount_sats, recipient, votes_for, votes_against, total_weight, voting_ends_at)
+       VALUES (?, ?, ?, 'spending', ?, ?, ?, ?, 1, datetime('now')) RETURNING *`
+    ).bind(dao.id, 'bc1qalice', 'pay', amount, 'bc1qpayee', votes.for, votes.against).first<any>();
+  const count = async (sql: string, ...params: unknown[]) =>
+    (await db.prepare(sql).bind(...params).first<{ n: number }>())!.n;
+
+  it('pays a passed proposal once when two settlements race', async () => {
+    const proposal = await spending(600, { for: 1, against: 0 });
+    const outcomes = await Promise.all([settleProposal(db, dao, proposal), settleProposal(db, dao, proposal, true)]);
+    expect(outcomes.map(o => o.status)).toEqual(['passed', 'passed']);
+    expect(await ledgerBalance(db, dao.id)).toBe(400);
+    expect(await count('SELECT COUNT(*) as n FROM treasury_entries WHERE proposal_id = ?', proposal.id)).toBe(1);
+    expect(await count('SELECT COUNT(*) as n FROM activity WHERE dao_id = ? AND action = ?', dao.id, 'passed')).toBe(1);
+  });
+
+  it('does not execute a proposal that was already settled', async () => {
+    const proposal = await spending(600, { for: 1, against: 0 });
+    await settleProposal(db, dao, proposal);
+    expect(await settleProposal(db, dao, proposal)).toEqual({ status: 'passed' });
+    expect(await ledgerBalance(db, dao.id)).toBe(400);
+  });
+
+  it('records a failed execution once and reports it to the loser', async () => {
+    const proposal = await spending(5000, { for: 1, against: 0 });
+    const outcomes = await Promise.all([settleProposal(db, dao, proposal), settleProposal(db, dao, proposal)]);
+    expect(outcomes).toEqual([
+      { status: 'execution_failed', error: 'treasury has 1000 sats, needs 5000' },
+      { status: 'execution_failed', error: 'treasury has 1000 sats, needs 5000' },
+    ]);
+    expect(await count('SELECT COUNT(*) as n FROM activity WHERE dao_id = ? AND action = ?', dao.id, 'execution_failed')).toBe(1);
+  });
+
+  it('closes a rejected proposal once', async () => {
+    const proposal = await spending(600, { for: 0, against: 1 });
+    await Promise.all([settleProposal(db, dao, proposal, true), settleProposal(db, dao, proposal, true)]);
+    expect(await count('SELECT COUNT(*) as n FROM activity WHERE dao_id = ? AND action = ?', dao.id, 'rejected')).toBe(1);
+    expect(await ledgerBalance(db, dao.id)).toBe(1000);
+  });
+});
+
+describe('multi-action spend limit', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let dao: any;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    dao = await db.prepare('INSERT INTO daos (name, description, creator, spend_limit_sats) VALUES (?, ?, ?, ?) RETURNING *')
+      .bind(`D${crypto.randomUUID()}`, 'd', 'bc1qalice', 500).first();
+    await db.prepare('INSERT INTO members (dao_id, btc_address, role) VALUES (?, ?, ?)').bind(dao.id, 'bc1qalice', 'admin').run();
+    await depositEntry(db, dao.id, 'bc1qalice', 5000).run();
+  });
+
+  const transfers = (...amounts: number[]) =>
+    amounts.map((amount, i) => ({ action_type: 'spending', amount_sats: amount, recipient: `bc1qpayee${i}` }));
+
+  it('rejects transfers that are each under the limit but together over it', async () => {
+    expect(await validateAction(db, dao, { actions: transfers(400, 400) }))
+      .toBe('the actions move 800 sats, over the DAO spend limit of 500 sats');
+  });
+
+  it('accepts transfers that fit the limit together', async () => {
+    expect(await validateAction(db, dao, { actions: transfers(200, 300) })).toMatchObject({ action_type: 'multi', amount_sats: 500 });
+  });
+
+  it('fails at execution when the limit was lowered after creation', async () => {
+    const action = await validateAction(db, dao, { actions: transfers(200, 300) }) as any;
+    const proposal = await db.prepare(
+      `INSERT INTO proposals (dao_id, proposer, title, action_type, amount_sats, action_payload, votes_for, total_weight)
+       VALUES (?, ?, ?, 'multi', ?, ?, 1, 1) RETURNING *`
+    ).bind(dao.id, 'bc1qalice', 'pay', action.amount_sats, JSON.stringify(action.payload)).first();
+    const outcome = await settleProposal(db, { ...dao, spend_limit_sats: 300 }, proposal);
+    expect(outcome).toEqual({ status: 'execution_failed', error: 'the actions move 500 sats, over the spend limit of 300' });
+    expect(await ledgerBalance(db, dao.id)).toBe(5000);
+  });
+});
@@ -0,0 +1,49 @@
+// Signed requests from a throwaway P2WPKH key, as a wallet would make them (BIP-137)
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { ripemd160 } from '@noble/hashes/legacy.js';
+import { base64, bech32, hex, utf8 } from '@scure/base';
+import { signingMessage } from '../src/auth';
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+export class TestWallet {
+  readonly address: string;
+  private readonly key = secp256k1.utils.randomSecretKey();
+
+  constructor() {
+    const pubkey = secp256k1.getPublicKey(this.key, true);
+    this.address = bech32.encode('bc', [0, ...bech32.toWords(ripemd160(sha256(pubkey)))]);
+  }
+
+  sign(message: string): string {
+    const prefix = utf8.decode('Bitcoin Signed Message:\n');
+    const msg = utf8.decode(message);
+    if (msg.length >= 0xfd) throw new Error('message too long for this helper');
+    const digest = sha256(sha256(concat(Uint8Array.of(prefix.length), prefix, Uint8Array.of(msg.length), msg)));
+    const sig = secp256k1.sign(digest, this.key, { prehash: false, format: 'recovered' });
+    // Header 39-42: compressed P2WPKH
+    return base64.encode(concat(Uint8Array.of(39 + sig[0]), sig.subarray(1)));
+  }
+
+  request(method: string, target: string, body?: unknown): Request {
+    const url = new URL(target, 'https://dao.example');
+    const raw = body === undefined ? '' : JSON.stringify(body);
+    const nonce = crypto.randomUUID().replace(/-/g, '');
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const message = signingMessage(method, url.pathname, nonce, timestamp, hex.encode(sha256(utf8.decode(raw))));
+    return new Request(url, {
+      method,
+      headers: { 'X-Signer': this.address, 'X-Signature': this.sign(message), 'X-Nonce': nonce, 'X-Timestamp': timestamp },
+      body: raw || undefined,
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { payDueStreams } from '../src/streams';
+import { depositEntry, ledgerBalance } from '../src/treasury';
+import { testDb } from './db';
+
+describe('payDueStreams', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let dao: any;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    await db.batch(['treasury_entries', 'activity', 'streams', 'proposals'].map(t => db.prepare(`DELETE FROM ${t}`)));
+    dao = await db.prepare('INSERT INTO daos (name, description, creator) VALUES (?, ?, ?) RETURNING *')
+      .bind(`D${crypto.randomUUID()}`, 'd', 'bc1qalice').first();
+    await depositEntry(db, dao.id, 'bc1qalice', 1000).run();
+  });
+
+  const stream = async (amount: number, cap: number) => {
+    const proposal = await db.prepare('INSERT INTO proposals (dao_id, proposer, title, status) VALUES (?, ?, ?, ?) RETURNING id')
+      .bind(dao.id, 'bc1qalice', 'stream', 'passed').first<{ id: number }>();
+    return db.prepare(
+      `INSERT INTO streams (dao_id, proposal_id, recipient, amount_sats, cadence, cap_sats, start_at, next_payment_at)
+       VALUES (?, ?, ?, ?, 'weekly', ?, datetime('now', '-1 hour'), datetime('now', '-1 hour')) RETURNING *`
+    ).bind(dao.id, proposal!.id, 'bc1qpayee', amount, cap).first<any>();
+  };
+  const count = async (sql: string, ...params: unknown[]) => (await db.prepare(sql).bind(...params).first<{ n: number }>())!.n;
+
+  it('pays a due installment once when cron runs overlap', async () => {
+    const s = await stream(100, 1000);
+    await Promise.all([payDueStreams(db), payDueStreams(db), payDueStreams(db)]);
+    expect(await ledgerBalance(db, dao.id)).toBe(900);
+    expect(await count('SELECT COUNT(*) as n FROM treasury_entries WHERE stream_id = ?', s.id)).toBe(1);
+    expect(await db.prepare('SELECT installments_paid, paid_sats FROM streams WHERE id = ?').bind(s.id).first())
+      .toEqual({ installments_paid: 1, paid_sats: 100 });
+  });
+
+  it('logs a pause once when cron runs overlap', async () => {
+    await stream(5000, 10000);
+    await Promise.all([payDueStreams(db), payDueStreams(db)]);
+    expect(await count(`SELECT COUNT(*) as n FROM activity WHERE action = 'stream_paused'`)).toBe(1);
+    expect(await ledgerBalance(db, dao.id)).toBe(1000);
+  });
+
+  it('tags each installment with its stream', async () => {
+    const [a, b] = [await stream(100, 1000), await stream(200, 1000)];
+    await payDueStreams(db);
+    const entries = await db.prepare('SELECT stream_id, amount_sats FROM treasury_entries WHERE stream_id IS NOT NULL ORDER BY stream_id').all();
+    expect(entries.results).toEqual([{ stream_id: a.id, amount_sats: 100 }, { stream_id: b.id, amount_sats: 200 }]);
+  });
+});
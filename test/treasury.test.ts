@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { depositEntry, distributionPlan, payoutEntry } from '../src/treasury';
+import { testDb } from './db';
+
+describe('distributionPlan', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let daoId: number;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    await db.batch([db.prepare('DELETE FROM treasury_entries'), db.prepare('DELETE FROM daos')]);
+    const dao = await db.prepare('INSERT INTO daos (name, description, creator) VALUES (?, ?, ?) RETURNING id').bind('D', 'd', 'bc1qalice').first<{ id: number }>();
+    daoId = dao!.id;
+  });
+
+  const ledger = (...deposits: [string, number][]) =>
+    db.batch(deposits.map(([funder, amount]) => depositEntry(db, daoId, funder, amount)));
+  const pay = (amount: number) => payoutEntry(db, daoId, 'bc1qpayee', amount, null, 'spend').run();
+  const amounts = (plan: Awaited<ReturnType<typeof distributionPlan>>) =>
+    Object.fromEntries(plan.distributions.map(d => [d.address, d.amount_sats]));
+
+  it('hands the sats lost to flooring to the largest remainders', async () => {
+    await ledger(['a', 600], ['b', 300], ['c', 100]);
+    await pay(1);
+    // Exact shares 599.4, 299.7 and 99.9
+    const plan = await distributionPlan(db, daoId);
+    expect(amounts(plan)).toEqual({ a: 599, b: 300, c: 100 });
+    expect(plan).toMatchObject({ balance_sats: 999, contributed_sats: 1000, undistributed_sats: 0 });
+  });
+
+  it('breaks remainder ties towards the larger contribution', async () => {
+    await ledger(['a', 300], ['b', 100]);
+    await pay(398);
+    // Exact shares 1.5 and 0.5 — one sat left over, both remainders equal
+    const plan = await distributionPlan(db, daoId);
+    expect(amounts(plan)).toEqual({ a: 2, b: 0 });
+  });
+
+  it('distributes the whole balance when products pass 2^53', async () => {
+    await ledger(['a', 3_000_000_000_000_001], ['b', 6_000_000_000_000_003]);
+    await pay(7);
+    const plan = await distributionPlan(db, daoId);
+    const total = plan.distributions.reduce((sum, d) => sum + d.amount_sats, 0);
+    expect(total).toBe(plan.balance_sats);
+    expect(amounts(plan).b - 2 * amounts(plan).a).toBeLessThanOrEqual(2);
+  });
+
+  it('leaves out contributors who were refunded in full', async () => {
+    await ledger(['a', 500], ['b', 500]);
+    await payoutEntry(db, daoId, 'b', 500, null, 'refund', true).run();
+    const plan = await distributionPlan(db, daoId);
+    expect(plan.distributions.map(d => d.address)).toEqual(['a']);
+    expect(amounts(plan)).toEqual({ a: 500 });
+  });
+
+  it('plans nothing when there is nothing to split', async () => {
+    expect(await distributionPlan(db, daoId)).toEqual({ balance_sats: 0, contributed_sats: 0, distributions: [], undistributed_sats: 0 });
+  });
+});
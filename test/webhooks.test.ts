@@ -0,0 +1,82 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { deliverDue } from '../src/webhooks';
+import { testDb } from './db';
+import { TestWallet } from './sign';
+
+const ctx = { waitUntil() {}, passThroughOnException() {} } as unknown as ExecutionContext;
+
+describe('webhooks', () => {
+  let db: D1Database;
+  let dispose: () => Promise<void>;
+  let env: any;
+  let admin: TestWallet;
+  let member: TestWallet;
+  let dao: any;
+  let webhookId: number;
+
+  beforeAll(async () => {
+    ({ db, dispose } = await testDb());
+    env = { DB: db, CORS_ORIGIN: '*' };
+  });
+  afterAll(() => dispose());
+
+  beforeEach(async () => {
+    admin = new TestWallet();
+    member = new TestWallet();
+    dao = await db.prepare('INSERT INTO daos (name, description, creator) VALUES (?, ?, ?) RETURNING *')
+      .bind(`D${crypto.randomUUID()}`, 'd', admin.address).first();
+    await db.batch([
+      db.prepare('INSERT INTO members (dao_id, btc_address, role) VALUES (?, ?, ?)').bind(dao.id, admin.address, 'admin'),
+      db.prepare('INSERT INTO members (dao_id, btc_address, role) VALUES (?, ?, ?)').bind(dao.id, member.address, 'member'),
+    ]);
+    const sub = await db.prepare(
+      `INSERT INTO webhook_subscriptions (dao_id, owner, url, secret, events) VALUES (?, ?, ?, ?, 'created') RETURNING id`
+    ).bind(dao.id, admin.address, 'https://hooks.example/secret-path', 'whsec_test').first<{ id: number }>();
+    webhookId = sub!.id;
+    await db.prepare(`INSERT INTO webhook_deliveries (subscription_id, event, payload) VALUES (?, 'created', '{"private":true}')`)
+      .bind(webhookId).run();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const call = (request: Request) => worker.fetch(request, env, ctx);
+
+  it('sends a due delivery once when runs overlap', async () => {
+    await db.prepare('DELETE FROM webhook_deliveries WHERE subscription_id != ?').bind(webhookId).run();
+    const send = vi.fn(async () => new Response('ok'));
+    vi.stubGlobal('fetch', send);
+    const sent = await Promise.all([deliverDue(db), deliverDue(db), deliverDue(db)]);
+    expect(sent.reduce((a, b) => a + b, 0)).toBe(1);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps subscriptions and delivery logs from unsigned readers', async () => {
+    for (const path of [`/api/daos/${dao.id}/webhooks`, `/api/webhooks/${webhookId}/deliveries`]) {
+      const res = await call(new Request(`https://dao.example${path}?actor=${admin.address}`));
+      expect(res.status).toBe(401);
+    }
+  });
+
+  it('keeps them from members who are not admins', async () => {
+    for (const path of [`/api/daos/${dao.id}/webhooks`, `/api/webhooks/${webhookId}/deliveries`]) {
+      const res = await call(member.request('GET', `${path}?actor=${member.address}`));
+      expect(res.status).toBe(403);
+    }
+  });
+
+  it('refuses an actor the signer does not speak for', async () => {
+    const res = await call(member.request('GET', `/api/daos/${dao.id}/webhooks?actor=${admin.address}`));
+    expect(res.status).toBe(401);
+  });
+
+  it('shows them to admins', async () => {
+    const list = await call(admin.request('GET', `/api/daos/${dao.id}/webhooks?actor=${admin.address}`));
+    expect(list.status).toBe(200);
+    expect((await list.json() as any).webhooks[0].url).toBe('https://hooks.example/secret-path');
+    const log = await call(admin.request('GET', `/api/webhooks/${webhookId}/deliveries?actor=${admin.address}`));
+    expect(log.status).toBe(200);
+    expect((await log.json() as any).deliveries[0].payload).toEqual({ private: true });
+  });
+});